@@ -81,9 +81,8 @@ function App(props: AppProps) {
       .then(() => loadDateFnsLocale())
   }, [])
 
-  // @mst replace-next-line useEffect(() => {
+  // @mst replace-block-start
   const { rehydrated } = useInitialRootStore(() => {
-    // @mst replace-next-line
     // This runs after the root store has been initialized and rehydrated.
 
     // If your initialization scripts run very fast, it's good to show the splash screen for just a bit longer to prevent flicker.
@@ -91,9 +90,16 @@ function App(props: AppProps) {
     // Note: (vanilla Android) The splash-screen will not appear if you launch your app via the terminal or Android Studio. Kill the app and launch it normally by tapping on the launcher icon. https://stackoverflow.com/a/69831106
     // Note: (vanilla iOS) You might notice the splash-screen logo change size. This happens in debug/development mode. Try building the app for release.
     setTimeout(hideSplashScreen, 500)
-
-    // @mst replace-next-line }, [])
   })
+  // @mst replace-block-with
+  // useEffect(() => {
+  //   // If your initialization scripts run very fast, it's good to show the splash screen for just a bit longer to prevent flicker.
+  //   // Slightly delaying splash screen hiding for better UX; can be customized or removed as needed,
+  //   // Note: (vanilla Android) The splash-screen will not appear if you launch your app via the terminal or Android Studio. Kill the app and launch it normally by tapping on the launcher icon. https://stackoverflow.com/a/69831106
+  //   // Note: (vanilla iOS) You might notice the splash-screen logo change size. This happens in debug/development mode. Try building the app for release.
+  //   setTimeout(hideSplashScreen, 500)
+  // }, [])
+  // @mst replace-block-end
 
   // Before we show the app, we have to wait for our state to be ready.
   // In the meantime, don't render anything. This will be the background
@@ -118,6 +118,7 @@ const ar: Translations = {
         "لم تتم اضافة اي مفضلات حتى الان. اضغط على القلب في إحدى الحلقات لإضافته الى المفضلة.",
     },
   },
+  // @demo remove-block-end
   // @demo remove-block-start
   ...demoAr,
   // @demo remove-block-end
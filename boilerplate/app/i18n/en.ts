@@ -121,6 +121,7 @@ const en = {
         "No favorites have been added yet. Tap the heart on an episode to add it to your favorites!",
     },
   },
+  // @demo remove-block-end
   // @demo remove-block-start
   ...demoEn,
   // @demo remove-block-end
@@ -124,6 +124,7 @@ const es: Translations = {
         "No se han agregado episodios favoritos todavía. ¡Presiona el corazón dentro de un episodio para agregarlo a tus favoritos!",
     },
   },
+  // @demo remove-block-end
   // @demo remove-block-start
   ...demoEs,
   // @demo remove-block-end
@@ -124,6 +124,7 @@ const fr: Translations = {
         "Aucun favori n'a été ajouté pour le moment. Appuyez sur le cœur d'un épisode pour l'ajouter à vos favoris !",
     },
   },
+  // @demo remove-block-end
   // @demo remove-block-start
   ...demoFr,
   // @demo remove-block-end
@@ -122,6 +122,7 @@ const ja: Translations = {
         "お気に入りのエピソードがまだありません。エピソードにあるハートマークにタップして、お気に入りに追加しましょう！",
     },
   },
+  // @demo remove-block-end
   // @demo remove-block-start
   ...demoJa,
   // @demo remove-block-end
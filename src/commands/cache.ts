@@ -1,14 +1,20 @@
 import { GluegunToolbox } from "gluegun"
 import { cache } from "../tools/cache"
-import { command, heading, igniteHeading, p } from "../tools/pretty"
+import { command, heading, igniteHeading, jsonOutput, p } from "../tools/pretty"
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const path = (_toolbox: GluegunToolbox) => {
-  console.log(cache.rootdir())
+  if (jsonOutput.isEnabled()) jsonOutput.result({ path: cache.rootdir() })
+  else console.log(cache.rootdir())
 }
 
 const clear = (toolbox: GluegunToolbox) => {
   const { print } = toolbox
+  if (jsonOutput.isEnabled()) {
+    cache.clear()
+    jsonOutput.result({ path: cache.rootdir(), cleared: true })
+    return
+  }
   const spinner = print.spin(`Removing the dependency cache at '${cache.rootdir()}'`)
   cache.clear()
   spinner.succeed(`Removed the dependency cache at '${cache.rootdir()}'`)
@@ -47,10 +53,12 @@ module.exports = {
   description: "Commands related to the dependency cache for Ignite",
   run: async (toolbox: GluegunToolbox) => {
     const { parameters } = toolbox
+    jsonOutput.start("cache", parameters.options)
 
     const subcommand: SubCommand | undefined = subcommands[parameters.first]
 
     if (subcommand === undefined) {
+      if (parameters.first) jsonOutput.error(`Unknown cache subcommand "${parameters.first}".`)
       help(toolbox)
       return
     }
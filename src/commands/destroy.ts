@@ -0,0 +1,11 @@
+import { GluegunToolbox } from "gluegun"
+
+module.exports = {
+  alias: ["d"],
+  description: "Removes what a generator added, e.g. `ignite destroy screen Profile`",
+  run: async (toolbox: GluegunToolbox) => {
+    // same as `ignite generate --undo`
+    toolbox.parameters.options.undo = true
+    await require("./generate").run(toolbox)
+  },
+}
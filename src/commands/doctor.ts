@@ -6,6 +6,9 @@
 import { GluegunToolbox } from "gluegun"
 import * as os from "os"
 import { packager } from "../tools/packager"
+import { jsonOutput } from "../tools/pretty"
+import { readIgniteConfig } from "../tools/project"
+import { stripANSI } from "../tools/strip-ansi"
 
 const isWindows = process.platform === "win32"
 const isMac = process.platform === "darwin"
@@ -17,16 +20,39 @@ module.exports = {
     const {
       filesystem: { separator, isFile },
       system: { run, which },
-      print: { colors, info, table },
+      print,
       strings: { padEnd },
       meta,
     } = toolbox
+    const { colors } = print
 
     // display helpers
     const column1 = (label, length = 16) => padEnd(label || "", length)
     const column2 = (label) => colors.yellow(padEnd(label || "-", 10))
     const column3 = (label) => colors.muted(label)
 
+    // with --json, collect each table's rows instead of printing them
+    const json = jsonOutput.start("doctor", toolbox.parameters.options)
+    const sections: Record<string, { name: string; version: string; detail: string }[]> = {}
+    let currentSection = ""
+    const info = (m: string) => {
+      if (json) currentSection = stripANSI(m)
+      else print.info(m)
+    }
+    const table = (rows: string[][]) => {
+      if (!json) return print.table(rows)
+      const [name, version, detail] = [0, 1, 2]
+      const clean = (cell?: string) => stripANSI(cell ?? "").trim()
+      sections[currentSection] = (sections[currentSection] ?? []).concat(
+        rows.map((row) => ({
+          name: clean(row[name]),
+          version: clean(row[version]),
+          detail: clean(row[detail]),
+        })),
+      )
+      jsonOutput.result({ sections })
+    }
+
     // -=-=-=- system -=-=-=-
     const platform = process.platform
     const arch = os.arch()
@@ -142,6 +168,23 @@ module.exports = {
       column2(igniteSrcPath.split(separator).pop()),
       column3(igniteSrcPath),
     ])
+    // how the project in this directory was created, if it recorded that in app.json
+    const igniteConfig = readIgniteConfig()
+    if (igniteConfig.version) {
+      igniteTable.push([column1("project"), column2(igniteConfig.version), column3("app.json")])
+      const recorded = [
+        ["workflow", igniteConfig.workflow],
+        ["packager", igniteConfig.packager],
+        ["state", igniteConfig.state],
+        ["demo removed", igniteConfig.removeDemo],
+        ["expo-router", igniteConfig.expoRouter],
+        ["new-arch", igniteConfig.newArch],
+        ["bundle id", igniteConfig.bundleIdentifier],
+      ] as const
+      recorded
+        .filter(([, value]) => value !== undefined)
+        .forEach(([label, value]) => igniteTable.push([column1(`  ${label}`), column2(`${value}`)]))
+    }
     table(igniteTable)
 
     // -=-=-=- android -=-=-=-
@@ -1,17 +1,50 @@
 import { GluegunToolbox } from "gluegun"
 import { boolFlag } from "../tools/flag"
-import { generateFromTemplate, runGenerator } from "../tools/generators"
-import { command, heading, p, warning } from "../tools/pretty"
+import {
+  destroyFromTemplate,
+  DestroyResult,
+  failedPatchStatuses,
+  generateFromTemplate,
+  GeneratorOptions,
+  installedGenerators,
+  isRecipe,
+  loadRecipe,
+  logRecipeRun,
+  manifestOptions,
+  PatchResult,
+  runGenerator,
+  templatePrompts,
+} from "../tools/generators"
+import { findGeneratorRun, removeGeneratorRun } from "../tools/manifest"
+import { Recipe } from "../tools/recipes"
+import {
+  answerTemplatePrompts,
+  parsePropFlags,
+  TemplatePrompt,
+  TemplatePropValue,
+} from "../tools/template-prompts"
+import { command, heading, jsonOutput, p, warning } from "../tools/pretty"
+import {
+  ExpoRouterRoute,
+  parseExpoRouterRoute,
+  removeEmptyExpoRouterFolders,
+  writeExpoRouterLayouts,
+} from "../tools/expo-router"
+import { appDirName } from "../tools/project"
+import type { OpenApiExports, OpenApiResult } from "../tools/openapi"
+import { readSchemaModel, valueCode } from "../tools/json-schema"
 import { Options } from "./new"
 
 const SUB_DIR_DELIMITER = "/"
 
 module.exports = {
   alias: ["g", "generator", "generators"],
-  description: "Generates components and other features from templates",
+  description:
+    "Generates components and other features from templates. Add --undo to remove what a generator added.",
   run: async (toolbox: GluegunToolbox) => {
     const generator = toolbox.parameters.first?.toLowerCase()
-    runGenerator(toolbox, generate, generator)
+    jsonOutput.start("generate", toolbox.parameters.options)
+    await runGenerator(toolbox, generate, generator)
   },
 }
 
@@ -21,18 +54,40 @@ async function generate(toolbox: GluegunToolbox) {
   // what generator are we running?
   const generator = parameters.first.toLowerCase()
 
+  // `--undo` (or `ignite destroy`) removes what the same command generated
+  const undo = boolFlag(parameters.options.undo) ?? false
+
   // check if we should override front matter dir or default dir
   const dir = parameters.options.dir ?? parameters.third
 
+  // `ignite g api --from openapi.yaml` generates the whole API layer, so there's no name
+  if (generator === "api" && parameters.options.from) {
+    generateFromOpenApi(toolbox, String(parameters.options.from))
+    return
+  }
+
   // we need a name for this component
   let name = parameters.second
   if (!name) {
     warning(`⚠️  Please specify a name for your ${generator}:`)
+    jsonOutput.error(`Please specify a name for your ${generator}.`)
     p()
     command(`npx ignite-cli g ${generator} MyName`)
     return
   }
 
+  // recipes run other generators
+  if (isRecipe(generator)) {
+    await generateRecipe(toolbox, generator, name)
+    return
+  }
+
+  // Expo Router projects get a route file under src/app instead of a screen in the navigator
+  if (generator === "screen" && appDirName() === "src") {
+    await generateRoute(toolbox, name, dir)
+    return
+  }
+
   // parse any subdirectories from the specified name
   let subdirectory = ""
   if (name.indexOf(SUB_DIR_DELIMITER) > -1) {
@@ -53,12 +108,24 @@ async function generate(toolbox: GluegunToolbox) {
     command(`npx ignite-cli generate ${generator} ${pascalName}`)
   }
 
-  // okay, let's do it!
+  // the API generator's list and by-id methods are get<Plural> and get<Name>, which can't be told
+  // apart for names like Orders or News
+  if (generator === "api" && strings.pluralize(pascalName) === pascalName) {
+    const singular = strings.singular(pascalName)
+    const suggestion = singular !== pascalName ? `, like ${singular}` : " that has a plural"
+    const message = `${pascalName} is the same in the plural, so its list and by-id methods would both be get${pascalName}. Use a name${suggestion}.`
+    warning(`⚠️  ${message}`)
+    jsonOutput.error(message)
+    p()
+    if (singular !== pascalName) command(`npx ignite-cli g api ${singular}`)
+    return
+  }
+
   p()
   const options: Options = parameters.options
   const defaultOverwrite = false
   const overwrite = !options.overwrite ? defaultOverwrite : boolFlag(options.overwrite)
-  const { written, overwritten, exists } = await generateFromTemplate(generator, {
+  const templateOptions: GeneratorOptions = {
     name: pascalName,
     originalName: name,
     skipIndexFile: parameters.options.skipIndexFile,
@@ -66,8 +133,314 @@ async function generate(toolbox: GluegunToolbox) {
     subdirectory,
     dir,
     case: parameters.options.case,
+  }
+  templateOptions.templateProps = await resolveTemplateProps(toolbox, generator, templateOptions)
+  if (!templateOptions.templateProps) return
+
+  // `ignite g model Episode --from sample.json` works out the model's props; undoing reuses the
+  // logged ones
+  const { from, schema } = parameters.options
+  if (generator === "model" && !undo && (from || schema)) {
+    const modelProps = schemaModelProps(pascalName, { sample: from, schema })
+    if (!modelProps) return
+    Object.assign(templateOptions.templateProps, modelProps)
+  }
+
+  if (undo) {
+    const result = await destroyFromTemplate(generator, {
+      ...templateOptions,
+      force: boolFlag(parameters.options.force),
+    })
+    jsonOutput.result({ generator, name: pascalName, undo, ...result })
+    printDestroyedFiles(result)
+    return
+  }
+
+  // okay, let's do it!
+  const result = await generateFromTemplate(generator, templateOptions)
+  jsonOutput.result({ generator, name: pascalName, ...result })
+  printGeneratedFiles(result)
+  failOnUnappliedPatches(toolbox, result.patches)
+}
+
+async function generateRoute(toolbox: GluegunToolbox, route: string, dir?: string) {
+  const { parameters } = toolbox
+
+  let parsedRoute: ExpoRouterRoute
+  try {
+    parsedRoute = parseExpoRouterRoute(route, {
+      dir: dir === undefined ? undefined : String(dir),
+      layout: boolFlag(parameters.options.layout),
+    })
+  } catch (e) {
+    warning(`⚠️  ${e.message}`)
+    jsonOutput.error(e.message)
+    return
+  }
+
+  p()
+  const options: Options = parameters.options
+  const overwrite = !options.overwrite ? false : boolFlag(options.overwrite)
+  const templateOptions: GeneratorOptions = {
+    name: parsedRoute.componentName,
+    // the route segment is the file name, as-is
+    originalName: parsedRoute.fileName,
+    case: "none",
+    dir: parsedRoute.dir,
+    skipIndexFile: true,
+    overwrite,
+    subdirectory: "",
+    routeParams: parsedRoute.params,
+  }
+  templateOptions.templateProps = await resolveTemplateProps(toolbox, "screen", templateOptions)
+  if (!templateOptions.templateProps) return
+
+  if (boolFlag(parameters.options.undo)) {
+    const result = await destroyFromTemplate("screen", {
+      ...templateOptions,
+      force: boolFlag(parameters.options.force),
+    })
+    if (result.removed.length > 0) {
+      result.removed.push(...removeEmptyExpoRouterFolders(parsedRoute.dir))
+    }
+    jsonOutput.result({ generator: "screen", route, name: parsedRoute.componentName, ...result })
+    printDestroyedFiles(result)
+    return
+  }
+
+  const result = await generateFromTemplate("screen", templateOptions)
+  if (result.written.length > 0) {
+    result.written.push(...writeExpoRouterLayouts(parsedRoute.layoutDirs))
+  }
+  jsonOutput.result({
+    generator: "screen",
+    route,
+    name: parsedRoute.componentName,
+    params: parsedRoute.params,
+    ...result,
   })
+  printGeneratedFiles(result)
+  failOnUnappliedPatches(toolbox, result.patches)
+}
+
+/**
+ * Template props for a model whose props come from a JSON sample or JSON Schema: its props, the
+ * models it nests and a snapshot for its test.
+ * @returns undefined (after printing why) if the file can't be used
+ */
+function schemaModelProps(
+  name: string,
+  source: { sample?: string; schema?: string },
+): Record<string, TemplatePropValue> | undefined {
+  try {
+    const model = readSchemaModel(name, source)
+    return {
+      modelProps: model.props.join("\n"),
+      subModels: model.subModels.join("\n\n"),
+      snapshot: valueCode(model.snapshot),
+    }
+  } catch (e) {
+    warning(`⚠️  ${e.message}`)
+    jsonOutput.error(e.message)
+    return undefined
+  }
+}
+
+/**
+ * Generates types and `Api` methods from an OpenAPI document into the generated regions of the
+ * api files, or removes them with `--undo`.
+ */
+function generateFromOpenApi(toolbox: GluegunToolbox, source: string) {
+  const { parameters } = toolbox
+  const undo = boolFlag(parameters.options.undo) ?? false
+  // TypeScript is heavy, so only load it when it's needed
+  const { generateOpenApi } = require("../tools/openapi") as OpenApiExports
+
+  let result: OpenApiResult
+  try {
+    result = generateOpenApi(source, { models: boolFlag(parameters.options.models), undo })
+  } catch (e) {
+    warning(`⚠️  ${e.message}`)
+    jsonOutput.error(e.message)
+    return
+  }
+  jsonOutput.result({ generator: "api", from: source, undo, ...result })
+
+  p()
+  if (undo) {
+    heading(`Removed the code generated from ${source} from:`)
+    const changed = [...result.updated, ...result.removed]
+    if (changed.length > 0) {
+      changed.forEach((f) => p(f))
+    } else p(`<none>`)
+    return
+  }
+
+  heading(`Generated ${result.operations.length} Api methods from ${source}:`)
+  result.operations.forEach((operation) => p(operation))
+  if (result.written.length > 0) {
+    p()
+    heading(`Generated new files:`)
+    result.written.forEach((f) => p(f))
+  }
+  if (result.updated.length > 0) {
+    p()
+    heading(`Updated:`)
+    result.updated.forEach((f) => p(f))
+  }
+}
+
+/**
+ * Answers the template's `prompts:` from flags named after them and `--prop`, asking for the
+ * rest. Undoing reuses the answers logged in ignite/generated.json, so the template renders the
+ * same files.
+ * Recipes pass their own prompts, and the props they share with their steps.
+ * @returns undefined (after printing why) if the answers are invalid
+ */
+async function resolveTemplateProps(
+  toolbox: GluegunToolbox,
+  generator: string,
+  options: GeneratorOptions,
+  recipe: { prompts?: TemplatePrompt[]; props?: Record<string, TemplatePropValue> } = {},
+): Promise<Record<string, TemplatePropValue> | undefined> {
+  const { parameters } = toolbox
+  const undo = boolFlag(parameters.options.undo) ?? false
 
+  try {
+    const loggedRun = undo
+      ? findGeneratorRun({ generator, name: options.name, options: manifestOptions(options) })
+      : undefined
+    const prompts = recipe.prompts ?? templatePrompts(generator, options)
+    // prompts can be answered with a flag of the same name, e.g. --with-test for withTest
+    const flagProps: Record<string, TemplatePropValue> = {}
+    prompts
+      .filter((prompt) => parameters.options[prompt.name] !== undefined)
+      .forEach((prompt) => (flagProps[prompt.name] = parameters.options[prompt.name]))
+    return await answerTemplatePrompts(toolbox, prompts, {
+      props: {
+        ...loggedRun?.options.props,
+        ...flagProps,
+        ...parsePropFlags(parameters.options.prop),
+        // already includes the --prop flags, answered for the recipe
+        ...recipe.props,
+      },
+      interactive: !undo && !jsonOutput.isEnabled(),
+    })
+  } catch (e) {
+    warning(`⚠️  ${e.message}`)
+    jsonOutput.error(e.message)
+    return undefined
+  }
+}
+
+/**
+ * Runs each step of a recipe (a generator with a generator.yml) as if it were its own
+ * `ignite g` command, and reports the files from all of them. Every step's prompts are
+ * answered before anything is written.
+ */
+async function generateRecipe(toolbox: GluegunToolbox, generator: string, name: string) {
+  const { parameters, strings } = toolbox
+  const undo = boolFlag(parameters.options.undo) ?? false
+  const overwrite = boolFlag(parameters.options.overwrite) ?? false
+
+  // the subdirectory is passed on to steps that don't set their own
+  const lastSlashIndex = name.lastIndexOf(SUB_DIR_DELIMITER)
+  const subdirectory = name.substring(0, lastSlashIndex + 1)
+  const baseName = name.substring(lastSlashIndex + 1)
+
+  const options: GeneratorOptions = {
+    name: strings.pascalCase(baseName),
+    originalName: baseName,
+    skipIndexFile: parameters.options.skipIndexFile,
+    overwrite,
+    subdirectory,
+  }
+
+  const fail = (message: string) => {
+    warning(`⚠️  ${message}`)
+    jsonOutput.error(message)
+  }
+
+  let recipe: Recipe
+  try {
+    // generator.yml is rendered once to find its prompts, then again with the answers
+    const prompts = loadRecipe(generator, options)?.prompts ?? []
+    options.templateProps = await resolveTemplateProps(toolbox, generator, options, { prompts })
+    if (!options.templateProps) return
+    recipe = loadRecipe(generator, options) as Recipe
+  } catch (e) {
+    fail(e.message)
+    return
+  }
+
+  const steps: { generator: string; options: GeneratorOptions }[] = []
+  for (const step of recipe.steps.filter((s) => !s.skip)) {
+    if (!installedGenerators().includes(step.generator)) {
+      fail(`The ${generator} recipe runs the "${step.generator}" generator, which isn't installed.`)
+      return
+    }
+    if (isRecipe(step.generator)) {
+      fail(`The ${generator} recipe runs "${step.generator}", but recipes can't run other recipes.`)
+      return
+    }
+
+    const stepOptions: GeneratorOptions = {
+      name: strings.pascalCase(step.name),
+      originalName: step.name,
+      skipIndexFile: step.skipIndexFile ?? options.skipIndexFile,
+      overwrite,
+      subdirectory: step.subdirectory ?? subdirectory,
+      dir: step.dir,
+      case: step.case as GeneratorOptions["case"],
+    }
+    stepOptions.templateProps = await resolveTemplateProps(toolbox, step.generator, stepOptions, {
+      props: { ...options.templateProps, ...recipe.props, ...step.props },
+    })
+    if (!stepOptions.templateProps) return
+    steps.push({ generator: step.generator, options: stepOptions })
+  }
+
+  p()
+  if (undo) {
+    // undo in reverse, so later steps' patches come out before the ones they were anchored to
+    const result: DestroyResult = {
+      removed: [],
+      modified: [],
+      missing: [],
+      reverted: [],
+      notReverted: [],
+    }
+    for (const step of [...steps].reverse()) {
+      const stepResult = await destroyFromTemplate(step.generator, {
+        ...step.options,
+        force: boolFlag(parameters.options.force),
+      })
+      Object.keys(result).forEach((key) => result[key].push(...stepResult[key]))
+    }
+    removeGeneratorRun({ generator, name: options.name, options: manifestOptions(options) })
+    jsonOutput.result({ generator, name: options.name, undo, ...result })
+    printDestroyedFiles(result)
+    return
+  }
+
+  const result = { written: [], overwritten: [], exists: [], patches: [] }
+  for (const step of steps) {
+    const stepResult = await generateFromTemplate(step.generator, step.options)
+    Object.keys(result).forEach((key) => result[key].push(...stepResult[key]))
+  }
+  logRecipeRun(generator, options, [...result.written, ...result.overwritten])
+  jsonOutput.result({ generator, name: options.name, ...result })
+  printGeneratedFiles(result)
+  failOnUnappliedPatches(toolbox, result.patches)
+}
+
+function printGeneratedFiles(files: {
+  written: string[]
+  overwritten: string[]
+  exists: string[]
+  patches: PatchResult[]
+}) {
+  const { written, overwritten, exists, patches } = files
   heading(`Generated new files:`)
 
   if (exists.length > 0) {
@@ -84,4 +457,86 @@ async function generate(toolbox: GluegunToolbox) {
   } else {
     written.forEach((f) => p(f))
   }
+
+  // a file can get several patches (a screen adds two to its navigator), but it's listed once
+  const distinct = (val: string, index: number, self: string[]) => self.indexOf(val) === index
+  const patchedPaths = (status: PatchResult["status"]) =>
+    patches
+      .filter((patch) => patch.status === status)
+      .map((patch) => patch.path)
+      .filter(distinct)
+
+  const patched = patchedPaths("applied")
+  if (patched.length > 0) {
+    p()
+    heading(`Patched:`)
+    patched.forEach((path) => p(path))
+  }
+
+  const alreadyPatched = patchedPaths("already present").filter((path) => !patched.includes(path))
+  if (alreadyPatched.length > 0) {
+    p()
+    heading(`Skipped these patches because the changes are already there:`)
+    alreadyPatched.forEach((path) => p(path))
+  }
+
+  const unapplied = patches.filter((patch) => failedPatchStatuses.includes(patch.status))
+  if (unapplied.length > 0) {
+    p()
+    warning(`⚠️  Couldn't apply these patches; make the changes by hand:`)
+    unapplied.forEach(({ path, status, message }) => p(`${path}: ${message ?? status}`))
+  }
+}
+
+/**
+ * With `--strict`, a patch whose file or anchor is missing fails the command, so scripts and
+ * CI notice a template that's drifted from the project.
+ */
+function failOnUnappliedPatches(toolbox: GluegunToolbox, patches: PatchResult[]) {
+  if (!boolFlag(toolbox.parameters.options.strict)) return
+
+  const unapplied = patches.filter((patch) => failedPatchStatuses.includes(patch.status))
+  if (unapplied.length === 0) return
+
+  const message = `${unapplied.length} patch${unapplied.length === 1 ? "" : "es"} didn't apply.`
+  p()
+  warning(`⚠️  --strict: ${message}`)
+  jsonOutput.error(message)
+  process.exitCode = 1
+}
+
+function printDestroyedFiles(result: DestroyResult) {
+  const { removed, modified, missing, reverted, notReverted } = result
+  const skipped = modified.filter((f) => !removed.includes(f))
+
+  heading(`Removed files:`)
+  if (removed.length > 0) {
+    removed.forEach((f) => p(f))
+  } else p(`<none>`)
+
+  if (reverted.length > 0) {
+    p()
+    heading(`Undid changes to:`)
+    reverted.forEach((f) => p(f))
+  }
+
+  if (missing.length > 0) {
+    p()
+    heading(`Already removed:`)
+    missing.forEach((f) => p(f))
+  }
+
+  if (notReverted.length > 0) {
+    p()
+    warning(`⚠️  Couldn't undo these changes; fix them up by hand:`)
+    notReverted.forEach(({ path, reason }) => p(`${path}: ${reason}`))
+  }
+
+  if (skipped.length > 0) {
+    p()
+    warning(`⚠️  Skipped these files because they changed since they were generated:`)
+    skipped.forEach((f) => p(f))
+    p()
+    heading("To remove them anyway, run the command again with the `--force` flag")
+  }
 }
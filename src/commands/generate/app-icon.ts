@@ -1,13 +1,14 @@
 import { GluegunToolbox } from "gluegun"
 import { generateAppIcons, runGenerator, validateAppIconGenerator } from "../../tools/generators"
-import { heading, p, warning } from "../../tools/pretty"
+import { heading, jsonOutput, p, warning } from "../../tools/pretty"
 
 module.exports = {
   alias: ["launcher-icon"],
   description: "Generates app-icons from templates",
   run: async (toolbox: GluegunToolbox) => {
     const generator = toolbox.parameters.command?.toLowerCase()
-    runGenerator(toolbox, generate, generator)
+    jsonOutput.start("generate app-icon", toolbox.parameters.options)
+    await runGenerator(toolbox, generate, generator)
   },
 }
 
@@ -18,10 +19,12 @@ async function generate(toolbox: GluegunToolbox) {
 
   if (!isValid) {
     messages.forEach((message) => warning(message))
+    jsonOutput.error("Unable to generate app-icons, see warnings.")
     return
   }
 
   const isSuccessful = await generateAppIcons("expo")
+  jsonOutput.result({ generated: isSuccessful })
 
   if (isSuccessful) {
     heading(`App icons generated!`)
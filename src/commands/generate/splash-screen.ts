@@ -4,14 +4,15 @@ import {
   runGenerator,
   validateSplashScreenGenerator,
 } from "../../tools/generators"
-import { command, heading, p, warning } from "../../tools/pretty"
+import { command, heading, jsonOutput, p, warning } from "../../tools/pretty"
 
 module.exports = {
   alias: ["splash"],
   description: "Generates splash-screen from templates",
   run: async (toolbox: GluegunToolbox) => {
     const generator = toolbox.parameters.command?.toLowerCase()
-    runGenerator(toolbox, generate, generator)
+    jsonOutput.start("generate splash-screen", toolbox.parameters.options)
+    await runGenerator(toolbox, generate, generator)
   },
 }
 
@@ -34,6 +35,7 @@ async function generate(toolbox: GluegunToolbox) {
 
     p()
     command(`npx ignite-cli g ${generator} "#191015" [--android-size=180 --ios-size=212]`)
+    jsonOutput.error("Please specify the background color of the splash screen.")
     return
   }
 
@@ -52,10 +54,12 @@ async function generate(toolbox: GluegunToolbox) {
 
   if (!isValid) {
     messages.forEach((message) => warning(message))
+    jsonOutput.error(`Unable to generate ${generator}, see warnings.`)
     return
   }
 
   const isSuccessful = await generateSplashScreen({ androidSize, iosSize, backgroundColor })
+  jsonOutput.result({ generated: isSuccessful })
 
   if (isSuccessful) {
     heading(`Splash screen generated!`)
@@ -49,6 +49,12 @@ module.exports = {
       "npx ignite-cli rename NewName com.mycompany.newname",
     ])
     p()
+    command(
+      "remove-feature (rf)",
+      "Removes a feature marked with // @feature comments (add --markup-only to keep the code)",
+      ["npx ignite-cli remove-feature analytics", "npx ignite-cli remove-feature mst --dry-run"],
+    )
+    p()
     command(
       "remove-demo (rd)",
       "Removes demo code from the project (add --dry-run to list changes but not execute)",
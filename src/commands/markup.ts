@@ -0,0 +1,133 @@
+import { GluegunToolbox } from "gluegun"
+import { builtInFeatures, readFeatures } from "../tools/features"
+import { boolFlag } from "../tools/flag"
+import { lintMarkupFiles, typecheckFeatureCombinations } from "../tools/markup-lint"
+import {
+  command,
+  heading,
+  igniteHeading,
+  jsonOutput,
+  p,
+  startSpinner,
+  stopLastSpinner,
+  warning,
+} from "../tools/pretty"
+
+const lint = async (toolbox: GluegunToolbox) => {
+  const { parameters } = toolbox
+  const targetDir = parameters.second ?? process.cwd()
+  const typecheck = boolFlag(parameters.options.typecheck) ?? true
+
+  // the built-in features, plus any the project declares
+  let featureNames = Object.keys(builtInFeatures)
+  try {
+    const declared = Object.keys(readFeatures(targetDir))
+    featureNames = featureNames.concat(declared.filter((name) => !featureNames.includes(name)))
+  } catch (e) {
+    warning(e.message)
+    jsonOutput.error(e.message)
+  }
+
+  p()
+  p(`Checking ${featureNames.map((name) => `@${name}`).join(", ")} markup in '${targetDir}'`)
+  const problems = lintMarkupFiles(
+    targetDir,
+    featureNames.map((name) => `@${name}`),
+  )
+  problems.forEach(({ path, message }) => {
+    warning(`${path}: ${message}`)
+    jsonOutput.error(`${path}: ${message}`)
+  })
+  jsonOutput.result({ targetDir, problems })
+
+  // only demo × mst: every declared feature would double the type checks
+  const typecheckFeatures = Object.keys(builtInFeatures)
+  let typeErrors = 0
+  if (typecheck && problems.length > 0) {
+    p("Fix the markup before type-checking what removing it leaves behind.")
+  } else if (typecheck) {
+    try {
+      const results = await typecheckFeatureCombinations(targetDir, typecheckFeatures, {
+        onCombination: (removed) => {
+          stopLastSpinner("🛠️")
+          startSpinner(
+            ` Type-checking with ${removed.length ? removed.join(" and ") : "nothing"} removed`,
+          )
+        },
+      })
+      stopLastSpinner("🛠️")
+
+      results.forEach(({ removed, errors }) => {
+        if (errors.length === 0) return
+        typeErrors += errors.length
+        p()
+        heading(`With ${removed.length ? removed.join(" and ") : "nothing"} removed:`)
+        errors.forEach((error) => {
+          p(error)
+          jsonOutput.error(error)
+        })
+      })
+      jsonOutput.result({ typecheck: results })
+    } catch (e) {
+      stopLastSpinner("⚠️")
+      warning(e.message)
+      p("Run again with --no-typecheck to only check the markup.")
+      jsonOutput.error(e.message)
+      process.exitCode = 1
+      return
+    }
+  }
+
+  p()
+  if (problems.length > 0 || typeErrors > 0) {
+    warning(`Found ${problems.length} markup problem(s) and ${typeErrors} type error(s).`)
+    process.exitCode = 1
+  } else {
+    p("All markup looks good.")
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const help = (_toolbox: GluegunToolbox) => {
+  igniteHeading()
+  heading("ignite markup")
+  p()
+  p("ignite markup is a parent command for working with the // @demo, // @mst and")
+  p("other feature markup comments in a project or the boilerplate.")
+  p()
+  heading("Subcommands:")
+  p()
+  const width = 10
+  command({ m: "help", width }, "Display this message", ["ignite markup help"])
+  p()
+  command(
+    { m: "lint", width },
+    "Check that markup comments are well-formed, then type-check the app with each combination of demo and mst removed (add --no-typecheck to skip that)",
+    ["ignite markup lint", "ignite markup lint boilerplate --no-typecheck"],
+  )
+  igniteHeading()
+}
+
+const subcommands = {
+  help,
+  lint,
+} as const
+type SubCommand = (typeof subcommands)[keyof typeof subcommands]
+
+module.exports = {
+  description: "Commands for the feature markup comments in your app, like // @demo",
+  run: async (toolbox: GluegunToolbox) => {
+    const { parameters } = toolbox
+    jsonOutput.start("markup", parameters.options)
+
+    const subcommand: SubCommand | undefined = subcommands[parameters.first]
+
+    if (subcommand === undefined) {
+      if (parameters.first) jsonOutput.error(`Unknown markup subcommand "${parameters.first}".`)
+      help(toolbox)
+      return
+    }
+
+    await subcommand(toolbox)
+  },
+}
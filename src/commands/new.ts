@@ -1,4 +1,5 @@
 import { EOL } from "os"
+import * as pathlib from "path"
 import { GluegunToolbox } from "../types"
 import {
   isAndroidInstalled,
@@ -26,6 +27,8 @@ import {
   hr,
   INDENT,
   stopLastSpinner,
+  jsonOutput,
+  warning,
 } from "../tools/pretty"
 import type { ValidationsExports } from "../tools/validations"
 import { boolFlag } from "../tools/flag"
@@ -35,8 +38,20 @@ import {
   findAndRemoveDependencies,
   findAndUpdateDependencyVersions,
   newArchCompatExpectedVersions,
+  expoRouterDependencies,
 } from "../tools/dependencies"
 import { demoDependenciesToRemove, findDemoPatches } from "../tools/demo"
+import { configFilePath, readConfigFile, writeConfigFile } from "../tools/config"
+import { buildCreationPlan } from "../tools/plan"
+import type { IgniteProjectConfig } from "../tools/project"
+import {
+  CreationState,
+  CreationStep,
+  creationStepNames,
+  readCreationState,
+  removeCreationState,
+  runCreationSteps,
+} from "../tools/steps"
 
 type Workflow = "cng" | "manual"
 type StateMgmt = "mst" | "none"
@@ -158,19 +173,88 @@ export interface Options {
    * @default mst
    */
   state?: StateMgmt
+  /**
+   * Path to a JSON or YAML file with default values for the options above.
+   * CLI flags take priority over values in the file.
+   *
+   * Input Source: `parameter.option`
+   * @default `${cwd}/ignite.config.json` when passed without a value
+   */
+  config?: string | boolean
+  /**
+   * Write the resolved options to a config file at the end of the run,
+   * so they can be reused with `--config`
+   *
+   * Input Source: `parameter.option`
+   * @default `${cwd}/ignite.config.json` when passed without a value
+   */
+  saveConfig?: string | boolean
+  /**
+   * Print everything that would happen for the resolved options, then exit
+   * without writing to disk or running any commands
+   *
+   * Input Source: `parameter.option`
+   * @default false
+   */
+  dryRun?: boolean
+  /**
+   * Print a single JSON object describing the result instead of the usual output.
+   * Implies `--yes`, since there's nobody to answer prompts
+   *
+   * Input Source: `parameter.option`
+   * @default false
+   */
+  json?: boolean
+  /**
+   * Continue a failed run from the step that failed, using the options
+   * recorded in the target directory
+   *
+   * Input Source: `parameter.option`
+   * @default false
+   */
+  resume?: boolean
+  /**
+   * Delete the partially created project if any step fails
+   *
+   * Input Source: `parameter.option`
+   * @default false
+   */
+  rollbackOnError?: boolean
 }
 
 module.exports = {
   run: async (toolbox: GluegunToolbox) => {
     // #region Toolbox
     const { print, filesystem, system, meta, parameters, strings, prompt } = toolbox
-    const { kebabCase } = strings
+    const { kebabCase, padEnd } = strings
     const { exists, path, removeAsync, copy, read, write, homedir } = filesystem
-    const { info, colors, warning } = print
+    const { info, colors } = print
     const { gray, cyan, yellow, white, red, underline } = colors
-    const options: Options = parameters.options
 
-    const yname = boolFlag(options.y) || boolFlag(options.yes)
+    const json = jsonOutput.start("new", parameters.options)
+
+    // #region Config File
+    // values from the config file fill in anything that wasn't passed as a flag
+    let fileOptions: Options = {}
+    const configPath = configFilePath(parameters.options.config)
+    if (configPath) {
+      try {
+        const { options: configOptions, unknownKeys } = readConfigFile(configPath)
+        if (unknownKeys.length > 0) {
+          warning(`Ignoring unknown options in ${configPath}: ${unknownKeys.join(", ")}`)
+        }
+        fileOptions = configOptions
+      } catch (e) {
+        p()
+        p(yellow(`Error: Unable to read config file. ${e.message}`))
+        jsonOutput.error(`Unable to read config file. ${e.message}`)
+        process.exit(1)
+      }
+    }
+    const options: Options = { ...fileOptions, ...parameters.options }
+    // #endregion
+
+    const yname = boolFlag(options.y) || boolFlag(options.yes) || json
     const noTimeout = options.noTimeout ?? false
     const useDefault = (option: unknown) => yname && option === undefined
 
@@ -185,6 +269,7 @@ module.exports = {
     const timeoutExit = () => {
       p()
       p(yellow("Error: App creation timed out."))
+      jsonOutput.error("App creation timed out.")
       if (!debug) p(gray("Run again with --debug to see what's going on."))
       process.exit(1)
     }
@@ -194,12 +279,13 @@ module.exports = {
     // debug?
     const debug = boolFlag(options.debug)
     const log = <T = unknown>(m: T): T => {
-      debug && info(` ${m}`)
+      debug && !json && info(` ${m}`)
       return m
     }
 
     // log raw parameters for debugging
     log(`ignite command: ${parameters.argv.join(" ")}`)
+    configPath && log(`config file: ${configPath}`)
     // #endregion
 
     // #region Project Name
@@ -210,6 +296,33 @@ module.exports = {
     const projectNameKebab = kebabCase(projectName)
     // #endregion
 
+    // #region Resume
+    // a failed run leaves its options and progress in the target dir; reuse them so nothing is asked twice
+    const handleHomePrefix = (p: string | undefined) =>
+      p?.startsWith("~") ? p.replace("~", homedir()) : p
+    const resume = boolFlag(options.resume) ?? false
+    let resumeState: CreationState | undefined
+    if (resume) {
+      const resumePath = path(handleHomePrefix(options.targetPath) ?? projectName)
+      resumeState = readCreationState(resumePath)
+      if (resumeState === undefined) {
+        const nothingToResume = `Error: Nothing to resume at ${resumePath}. Pass --targetPath if the project was created somewhere else.`
+        p()
+        p(yellow(nothingToResume))
+        jsonOutput.error(nothingToResume)
+        process.exit(1)
+      }
+      if (resumeState.igniteVersion !== meta.version()) {
+        warning(
+          `This project was started with Ignite ${resumeState.igniteVersion}, but you're resuming with ${meta.version()}.`,
+        )
+      }
+      // flags passed now still win over the recorded options
+      Object.assign(options, resumeState.options, parameters.options)
+      log(`resuming after: ${resumeState.completed.join(", ")}`)
+    }
+    // #endregion
+
     // #region Boilerplate
     // if they pass in --boilerplate, warn them to use old Ignite
     const bname = options.b || options.boilerplate
@@ -218,6 +331,7 @@ module.exports = {
       p(yellow(`Different boilerplates are no longer supported in Ignite v4+.`))
       p(gray(`To use the old CLI to support different boilerplates, try:`))
       p(cyan(`npx ignite-cli@3 new ${projectName} --boilerplate ${bname}`))
+      jsonOutput.error("Different boilerplates are no longer supported in Ignite v4+.")
       process.exit(1)
     }
     // #endregion
@@ -245,6 +359,8 @@ module.exports = {
 
     // #region Project Path
     const defaultTargetPath = path(projectName)
+    // a saved config only keeps a --targetPath that was passed, so it can be reused for other apps
+    const targetPathOption = parameters.options.targetPath ?? fileOptions.targetPath
     let targetPath = useDefault(options.targetPath) ? defaultTargetPath : options.targetPath
     if (targetPath === undefined) {
       const targetPathResponse = await prompt.ask(() => ({
@@ -258,18 +374,18 @@ module.exports = {
       targetPath = targetPathResponse.targetPath
     }
 
-    const handleHomePrefix = (p: string | undefined) =>
-      p?.startsWith("~") ? p.replace("~", homedir()) : p
     targetPath = path(handleHomePrefix(targetPath))
 
     // #endregion
 
     // #region Prompt Overwrite
     // if they pass in --overwrite, remove existing directory otherwise throw if exists
+    // a dry run doesn't touch the folder, so it reports what would happen to it instead of asking
+    const dryRun = boolFlag(options.dryRun) ?? false
     const defaultOverwrite = false
     let overwrite = useDefault(options.overwrite) ? defaultOverwrite : boolFlag(options.overwrite)
 
-    if (exists(targetPath) && overwrite === undefined) {
+    if (exists(targetPath) && overwrite === undefined && !resume && !dryRun) {
       const overwriteResponse = await prompt.ask<{ overwrite: boolean }>(() => ({
         type: "confirm",
         name: "overwrite",
@@ -281,10 +397,11 @@ module.exports = {
       overwrite = overwriteResponse.overwrite
     }
 
-    if (exists(targetPath) && overwrite === false) {
+    if (exists(targetPath) && overwrite === false && !resume && !dryRun) {
       const alreadyExists = `Error: There's already a folder at ${targetPath}. To force overwriting that folder, run with --overwrite or say yes.`
       p()
       p(yellow(alreadyExists))
+      jsonOutput.error(alreadyExists)
       process.exit(1)
     }
     // #endregion
@@ -376,8 +493,8 @@ module.exports = {
 
     if (!removeDemo && stateMgmt === "none") {
       p()
-      p(yellow(`Warning: You can't remove MobX-State-Tree code without removing demo code.`))
-      p(yellow(`Setting --state=mst`))
+      warning(`Warning: You can't remove MobX-State-Tree code without removing demo code.`)
+      warning(`Setting --state=mst`)
       stateMgmt = "mst"
     }
     // #endregion
@@ -401,12 +518,14 @@ module.exports = {
           `Error: Invalid packager: "${packagerName}". Valid packagers are npm, yarn, pnpm, bun.`,
         ),
       )
+      jsonOutput.error(`Invalid packager: "${packagerName}".`)
       process.exit(1)
     }
 
     if (packagerName !== undefined && availablePackagers.includes(packagerName) === false) {
       p()
       p(yellow(`Error: selected "${packagerName}" but packager was not available on system`))
+      jsonOutput.error(`Selected "${packagerName}" but packager was not available on system`)
       process.exit(1)
     }
 
@@ -417,6 +536,7 @@ module.exports = {
       if (initial === NOT_FOUND) {
         p()
         p(yellow(`Error: Default packager "${defaultPackagerName}" was not available on system`))
+        jsonOutput.error(`Default packager "${defaultPackagerName}" was not available on system`)
         process.exit(1)
       }
 
@@ -478,12 +598,10 @@ module.exports = {
 
           if (!removeDemo) {
             p()
-            p(
-              yellow(
-                `Enabling Expo Router will currently remove the demo application. To continue with the demo app, check out the recipe with full instructions: https://ignitecookbook.com/docs/recipes/ExpoRouter`,
-              ),
+            warning(
+              `Enabling Expo Router will currently remove the demo application. To continue with the demo app, check out the recipe with full instructions: https://ignitecookbook.com/docs/recipes/ExpoRouter`,
             )
-            p(yellow(`Setting --remove-demo=true`))
+            warning(`Setting --remove-demo=true`)
             removeDemo = true
           }
         }
@@ -534,13 +652,93 @@ module.exports = {
 
     // #endregion
 
-    // #region Debug
-    // start tracking performance
-    const perfStart = new Date().getTime()
+    // #region Dry Run
+    if (dryRun) {
+      const plan = await buildCreationPlan({
+        boilerplatePath,
+        targetPath,
+        overwrite,
+        igniteVersion: meta.version(),
+        packagerName,
+        stateMgmt,
+        removeDemo,
+        installDeps,
+        git,
+        expoRouter: experimentalExpoRouter,
+        newArch: experimentalNewArch,
+        expoVersion,
+      })
+      jsonOutput.result({ dryRun: true, projectName, ...plan })
+      const { added, updated, removed } = plan.dependencies
+      const list = (items: string[]) => {
+        if (items.length === 0) p2("<none>")
+        items.forEach((item) => p2(item))
+      }
+
+      p()
+      p2(`Dry run: here's what creating ${em(projectName)} would do (nothing was written)`)
+      hr()
+      p()
+      p2(` █ Package Manager: ${packagerName}`)
+      p2(` █ Bundle identifier: ${bundleIdentifier}`)
+      const existingFolderNotes = {
+        remove: "already exists, and would be removed first",
+        ask: "already exists; you'd be asked whether to overwrite it",
+        keep: "already exists, so Ignite would stop without --overwrite",
+      }
+      const existingFolder = plan.existingFolder
+        ? yellow(` (${existingFolderNotes[plan.existingFolder]})`)
+        : ""
+      p2(` █ Path: ${targetPath}${existingFolder}`)
+      p2(` █ Workflow: ${workflow}`)
+      p2(` █ State management: ${stateMgmt}`)
+      p2(` █ Remove demo: ${removeDemo}`)
+      p2(` █ Experimental: ${experimentalFlags.join(",") || "<none>"}`)
+      p()
+      p2(white("Dependencies added:"))
+      list(Object.entries(added).map(([name, version]) => `${name}@${version}`))
+      p2(white("Dependencies updated:"))
+      list(Object.entries(updated).map(([name, version]) => `${name}@${version}`))
+      p2(white("Dependencies removed:"))
+      list(removed)
+      p()
+      p2(white("Files and folders removed:"))
+      list(plan.removedFiles)
+      p()
+      p2(white("Commands:"))
+      plan.commands.forEach((cmd) => command(cmd))
+      p()
+
+      process.exit(0)
+    }
+    // #endregion
 
+    // #region Debug
     // add a timeout to make sure we don't hang on any errors
     const timeout = noTimeout ? undefined : setTimeout(timeoutExit, MAX_APP_CREATION_TIME)
 
+    // note the original directory
+    const cwd = log(process.cwd())
+
+    const rollbackOnError = boolFlag(options.rollbackOnError) ?? false
+    const state: CreationState = resumeState ?? {
+      igniteVersion: meta.version(),
+      options: {
+        bundle: bundleIdentifier,
+        packager: packagerName,
+        workflow,
+        state: stateMgmt,
+        removeDemo,
+        experimental: experimentalFlags.length > 0 ? experimentalFlags.join(",") : undefined,
+        git,
+        installDeps,
+        targetPath,
+        useCache: options.useCache,
+      },
+      completed: [],
+      timings: {},
+    }
+
     // #region Print Welcome
     // welcome everybody!
     try {
@@ -566,138 +764,6 @@ module.exports = {
       p()
       // #endregion
 
-      // #region Overwrite
-      if (exists(targetPath) === "dir" && overwrite === true) {
-        const msg = ` Tossing that old app like it's hot`
-        startSpinner(msg)
-        await removeAsync(targetPath)
-        stopSpinner(msg, "🗑️")
-      }
-      // #endregion
-
-      // #region Copy Boilerplate Files
-      startSpinner(" 3D-printing a new React Native app")
-      await copyBoilerplate(toolbox, {
-        boilerplatePath,
-        targetPath,
-        excluded: [".vscode", "node_modules", "yarn.lock", "bun.lockb", "package-lock.json"],
-        overwrite,
-      })
-      stopSpinner(" 3D-printing a new React Native app", "🖨")
-      // copy the .gitignore if it wasn't copied over
-      // Release Ignite installs have the boilerplate's .gitignore in .gitignore.template
-      // (see https://github.com/npm/npm/issues/3763); development Ignite still
-      // has it in .gitignore. Copy it from one or the other.
-      const boilerplateIgnorePath = exists(boilerplate(".gitignore.template"))
-        ? boilerplate(".gitignore.template")
-        : boilerplate(".gitignore")
-      const targetIgnorePath = log(path(targetPath, ".gitignore"))
-      copy(log(boilerplateIgnorePath), targetIgnorePath, { overwrite: true })
-
-      if (exists(targetIgnorePath) === false) {
-        warning(`  Unable to copy ${boilerplateIgnorePath} to ${targetIgnorePath}`)
-      } else if (workflow === "manual") {
-        // if we're using the manual workflow, we need to remove the android and ios lines from the gitignore
-        let gitIgnoreContents = read(targetIgnorePath)
-        gitIgnoreContents = gitIgnoreContents.replace("/android", "").replace("/ios", "")
-
-        write(targetIgnorePath, gitIgnoreContents)
-      }
-
-      // note the original directory
-      const cwd = log(process.cwd())
-
-      // jump into the project to do additional tasks
-      process.chdir(targetPath)
-      // #endregion
-
-      // #region Handle package.json
-      // Update package.json:
-      // - Replacing app name: We do it on the unparsed file content
-      //   since that's easier than updating individual values
-      //   in the parsed structure, then we parse that as JSON.
-      let packageJsonRaw = read("package.json")
-      packageJsonRaw = packageJsonRaw
-        .replace(/HelloWorld/g, projectName)
-        .replace(/hello-world/g, projectNameKebab)
-
-      // add in expo-router package
-      if (experimentalExpoRouter) {
-        // find "expo-localization" line and append "expo-router" line after it
-        packageJsonRaw = packageJsonRaw.replace(
-          /"expo-localization": ".*",/g,
-          `"expo-localization": "~15.0.3",${EOL}    "expo-router":  "~3.5.17",`,
-        )
-
-        // replace "main" entry point from App.js to "expo-router/entry"
-        packageJsonRaw = packageJsonRaw.replace(/"main": ".*",/g, `"main": "expo-router/entry",`)
-      }
-
-      // If we need native dirs, change up start scripts from Expo Go variation to expo run:platform.
-      packageJsonRaw = packageJsonRaw
-        .replace(/start --android/g, "run:android")
-        .replace(/start --ios/g, "run:ios")
-
-      // If using canary build, update the expo dependency to the canary version
-      if (expoVersion) {
-        const expoDistTagOutput = await system.run("npm view expo dist-tags --json")
-        // filter for canary/beta and get last item in array
-        const tagVersion = JSON.parse(expoDistTagOutput)[expoVersion]
-        log(`overriding expo version to: ${tagVersion}`)
-        // find line with "expo": and replace entire line with tagVersion
-        packageJsonRaw = packageJsonRaw.replace(/"expo": ".*"/g, `"expo": "${tagVersion}"`)
-      }
-
-      // If we're removing the demo code, clean up some dependencies that are no longer needed
-      if (removeDemo) {
-        log(`Removing demo dependencies... ${demoDependenciesToRemove.join(", ")}`)
-        packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, demoDependenciesToRemove)
-        const patchesToRemove = findDemoPatches()
-        log(`Removing demo patches... ${patchesToRemove}`)
-        patchesToRemove.forEach((patch) => filesystem.cwd("./patches").remove(patch))
-      }
-
-      if (stateMgmt === "none") {
-        log(`Removing MST dependencies... ${mstDependenciesToRemove.join(", ")}`)
-        packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, mstDependenciesToRemove)
-      }
-
-      if (experimentalNewArch) {
-        log(`Swapping new architecture compatible dependencies...`)
-        packageJsonRaw = findAndUpdateDependencyVersions(
-          packageJsonRaw,
-          newArchCompatExpectedVersions,
-        )
-      }
-
-      // Then write it back out.
-      const packageJson = JSON.parse(packageJsonRaw)
-      write("./package.json", packageJson)
-      // #endregion
-
-      // #region Run Packager Install
-      // pnpm/yarn/npm/bun install it
-
-      // fix .npmrc if using pnpm
-      if (packagerName === "pnpm") {
-        // append `node-linker=hoisted` to .npmrc
-        const npmrcPath = path(targetPath, ".npmrc")
-        const npmrcContents = read(npmrcPath)
-        write(npmrcPath, `${npmrcContents}${EOL}node-linker=hoisted${EOL}`)
-      } else if (packagerName === "yarn") {
-        const yarnVersion = await packager.run("-v", { packagerName })
-        const yarnMajorVersion = parseInt(yarnVersion.split(".")[0], 10)
-
-        // if yarn version > 1 fix .yarnrc.yml
-        if (yarnMajorVersion > 1) {
-          log(`yarn v${yarnMajorVersion} found... fixing .yarnrc.yml...`)
-          // append `nodeLinker: node-modules` to .yarnrc.yml
-          const yarnrcPath = path(targetPath, ".yarnrc.yml")
-          const yarnrcContents = read(yarnrcPath)
-          write(yarnrcPath, `${yarnrcContents ?? ""}${EOL}nodeLinker: node-modules${EOL}`)
-        }
-      }
-
       // check if there is a dependency cache using a hash of the package.json
       const boilerplatePackageJsonHash = cache.hash(read(path(boilerplatePath, "package.json")))
       const cachePath = path(cache.rootdir(), boilerplatePackageJsonHash, packagerName)
@@ -712,258 +778,439 @@ module.exports = {
       const useCache = options.useCache === undefined ? defaultUseCache : boolFlag(options.useCache)
 
       const shouldUseCache = installDeps && cacheExists && useCache
-      if (shouldUseCache) {
-        const msg = `Grabbing those ${packagerName} dependencies from the back`
-        startSpinner(msg)
-        await cache.copy({
-          fromRootDir: cachePath,
-          toRootDir: targetPath,
-          packagerName,
-        })
-        stopSpinner(msg, "📦")
-      }
-
-      // #region Rename App
-      // rename the app using Ignite
-      const renameSpinnerMsg = `Getting those last few details perfect`
-      startSpinner(renameSpinnerMsg)
-
-      const boilerplateBundleIdentifier = "com.helloworld"
-      await renameReactNativeApp(
-        toolbox,
-        "HelloWorld",
-        projectName,
-        boilerplateBundleIdentifier,
-        bundleIdentifier,
-      )
-
-      await replaceMaestroBundleIds(toolbox, boilerplateBundleIdentifier, bundleIdentifier)
-
-      stopSpinner(renameSpinnerMsg, "🎨")
-      // #endregion
 
       const shouldFreshInstallDeps = installDeps && shouldUseCache === false
-      if (shouldFreshInstallDeps) {
-        const unboxingMessage = `Installing ${packagerName} dependencies (wow these are heavy)`
-        startSpinner(unboxingMessage)
-
-        // do base install
-        const installCmd = packager.installCmd({ packagerName })
-        await system.run(installCmd, { onProgress: log })
-        // If they chose npm and also Expo Router, we need to run npm install ajv@^8 --legacy-peer-deps.
-        // see https://github.com/infinitered/ignite/issues/2840
-        if (packagerName === "npm" && experimentalExpoRouter) {
-          await system.run(`npm install ajv@^8 --legacy-peer-deps`, { onProgress: log })
-        }
-        // now that expo is installed, we can run their install --fix for best Expo SDK compatibility
-        // for right now, we don't do this in CI because it returns a non-zero exit code
-        // see https://docs.expo.dev/more/expo-cli/#version-validation
-        if (process.env.CI !== "true") {
-          const forwardOptions = packagerName === "npm" ? " -- --legacy-peer-deps" : ""
-          log("Running `npx expo install --fix...`")
-          await system.run(`npx expo install --fix${forwardOptions}`, { onProgress: log })
-        }
-
-        stopSpinner(unboxingMessage, "🧶")
-      }
-
-      // remove the gitignore template
-      await removeAsync(".gitignore.template")
-      // #endregion
-
-      // #region Cache dependencies
-      if (shouldFreshInstallDeps && cacheExists === false && useCache) {
-        const msg = `Saving ${packagerName} dependencies for next time`
-        startSpinner(msg)
-        log(targetPath)
-        await cache.copy({
-          fromRootDir: targetPath,
-          toRootDir: cachePath,
-          packagerName,
-        })
-        stopSpinner(msg, "📦")
-      }
-      // #endregion
-
-      // #region Configure app.json
-      // Enable New Architecture if requested (must happen before prebuild)
-      startSpinner("Configuring app.json")
-      try {
-        const appJsonRaw = read("app.json")
-        const appJson = JSON.parse(appJsonRaw)
-
-        // Inject ignite version to app.json
-        appJson.ignite.version = igniteVersion
-
-        if (experimentalNewArch === true) {
-          appJson.expo.plugins[1][1].ios.newArchEnabled = true
-          appJson.expo.plugins[1][1].android.newArchEnabled = true
-        }
 
-        if (experimentalExpoRouter) {
-          appJson.expo.experiments.typedRoutes = true
-          appJson.expo.plugins.push("expo-router")
-        }
-
-        write("./app.json", appJson)
-      } catch (e) {
-        log(e)
-        p(yellow("Unable to configure app.json."))
-      }
-      stopSpinner("Configuring app.json", "⚙️")
-      // #endregion
-
-      // #region Run Prebuild
-      // we can't run this option if we didn't install deps
-      if (installDeps === true) {
-        // Check if we need to run prebuild to generate native dirs based on workflow
-        // Prebuild also handles the packager install
-        const prebuildMessage = `Generating native template via Expo Prebuild`
-        startSpinner(prebuildMessage)
-        await packager.run("prebuild:clean", { ...packagerOptions, onProgress: log })
-        stopSpinner(prebuildMessage, "🛠️")
-      }
-      // #endregion
-
-      // #region Remove Demo code
-      const removeDemoPart = removeDemo === true ? "code" : "markup"
-      startSpinner(`Removing fancy demo ${removeDemoPart}`)
-      try {
-        const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
-        const CMD = removeDemo === true ? "remove-demo" : "remove-demo-markup"
-
-        log(`Ignite bin path: ${IGNITE}`)
-        await system.run(`${IGNITE} ${CMD} "${targetPath}"`, { onProgress: log })
-      } catch (e) {
-        log(e)
-        p(yellow(`Unable to remove demo ${removeDemoPart}.`))
-      }
-      stopSpinner(`Removing fancy demo ${removeDemoPart}`, "🛠️")
-      // #endregion
-
-      // #region Expo Router edits
-      if (experimentalExpoRouter) {
-        const expoRouterMsg = " Recalibrating compass with Expo Router"
-        startSpinner(expoRouterMsg)
-
-        /**
-         * Instructions mostly adapted from https://ignitecookbook.com/docs/recipes/ExpoRouter
-         * 1. Move all files from app/ to src/
-         * 2. Update code refs to app/ with src/
-         * 3. Refactor Reactotron commands to use `router` instead of refs to react navigation
-         * 4. Create a screen template that makes sense for Expo Router
-         * 5. Clean up - move ErrorBoundary to proper spot and remove unused files
-         */
-        filesystem
-          .cwd(targetPath)
-          .find("app")
-          .forEach((file) => filesystem.cwd(targetPath).move(file, file.replace("app", "src")))
-        updateExpoRouterSrcDir(toolbox)
-        refactorExpoRouterReactotronCmds(toolbox)
-        createExpoRouterScreenTemplate(toolbox)
-        cleanupExpoRouterConversion(toolbox, targetPath)
-
-        stopSpinner(expoRouterMsg, "🧭")
-      } else {
-        // remove src/ dir since not using expo-router
-        filesystem.cwd(targetPath).remove("src")
-      }
-      // #endregion
+      let warnAboutEOL = false
 
-      // #region Remove MST code
-      const removeMstPart = stateMgmt === "none" ? "code" : "markup"
-      startSpinner(`Removing MobX-State-Tree ${removeMstPart}`)
-      try {
-        const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
-        const CMD = stateMgmt === "none" ? "remove-mst" : "remove-mst-markup"
+      // #region Creation Steps
+      const steps: CreationStep[] = [
+        {
+          name: "copy",
+          run: async () => {
+            // a resumed copy starts over, since we can't tell which files made it
+            if (exists(targetPath) === "dir" && (overwrite === true || resume)) {
+              const msg = ` Tossing that old app like it's hot`
+              startSpinner(msg)
+              await removeAsync(targetPath)
+              stopSpinner(msg, "🗑️")
+            }
+
+            startSpinner(" 3D-printing a new React Native app")
+            await copyBoilerplate(toolbox, {
+              boilerplatePath,
+              targetPath,
+              excluded: [".vscode", "node_modules", "yarn.lock", "bun.lockb", "package-lock.json"],
+              overwrite,
+            })
+            stopSpinner(" 3D-printing a new React Native app", "🖨")
+            // copy the .gitignore if it wasn't copied over
+            // Release Ignite installs have the boilerplate's .gitignore in .gitignore.template
+            // (see https://github.com/npm/npm/issues/3763); development Ignite still
+            // has it in .gitignore. Copy it from one or the other.
+            const boilerplateIgnorePath = exists(boilerplate(".gitignore.template"))
+              ? boilerplate(".gitignore.template")
+              : boilerplate(".gitignore")
+            const targetIgnorePath = log(path(targetPath, ".gitignore"))
+            copy(log(boilerplateIgnorePath), targetIgnorePath, { overwrite: true })
+
+            if (exists(targetIgnorePath) === false) {
+              warning(`Unable to copy ${boilerplateIgnorePath} to ${targetIgnorePath}`)
+            } else if (workflow === "manual") {
+              // if we're using the manual workflow, we need to remove the android and ios lines from the gitignore
+              let gitIgnoreContents = read(targetIgnorePath)
+              gitIgnoreContents = gitIgnoreContents.replace("/android", "").replace("/ios", "")
+
+              write(targetIgnorePath, gitIgnoreContents)
+            }
+
+            // jump into the project to do additional tasks
+            process.chdir(targetPath)
+          },
+        },
+        {
+          name: "packageJson",
+          run: async () => {
+            // Update package.json:
+            // - Replacing app name: We do it on the unparsed file content
+            //   since that's easier than updating individual values
+            //   in the parsed structure, then we parse that as JSON.
+            let packageJsonRaw = read("package.json")
+            packageJsonRaw = packageJsonRaw
+              .replace(/HelloWorld/g, projectName)
+              .replace(/hello-world/g, projectNameKebab)
+
+            // add in expo-router package
+            if (experimentalExpoRouter) {
+              // find "expo-localization" line and append "expo-router" line after it
+              packageJsonRaw = packageJsonRaw.replace(
+                /"expo-localization": ".*",/g,
+                `"expo-localization": "~15.0.3",${EOL}    "expo-router":  "${expoRouterDependencies["expo-router"]}",`,
+              )
+
+              // replace "main" entry point from App.js to "expo-router/entry"
+              packageJsonRaw = packageJsonRaw.replace(
+                /"main": ".*",/g,
+                `"main": "expo-router/entry",`,
+              )
+            }
+
+            // If we need native dirs, change up start scripts from Expo Go variation to expo run:platform.
+            packageJsonRaw = packageJsonRaw
+              .replace(/start --android/g, "run:android")
+              .replace(/start --ios/g, "run:ios")
+
+            // If using canary build, update the expo dependency to the canary version
+            if (expoVersion) {
+              const expoDistTagOutput = await system.run("npm view expo dist-tags --json")
+              // filter for canary/beta and get last item in array
+              const tagVersion = JSON.parse(expoDistTagOutput)[expoVersion]
+              log(`overriding expo version to: ${tagVersion}`)
+              // find line with "expo": and replace entire line with tagVersion
+              packageJsonRaw = packageJsonRaw.replace(/"expo": ".*"/g, `"expo": "${tagVersion}"`)
+            }
+
+            // If we're removing the demo code, clean up some dependencies that are no longer needed
+            if (removeDemo) {
+              log(`Removing demo dependencies... ${demoDependenciesToRemove.join(", ")}`)
+              packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, demoDependenciesToRemove)
+              const patchesToRemove = findDemoPatches()
+              log(`Removing demo patches... ${patchesToRemove}`)
+              patchesToRemove.forEach((patch) => filesystem.cwd("./patches").remove(patch))
+            }
+
+            if (stateMgmt === "none") {
+              log(`Removing MST dependencies... ${mstDependenciesToRemove.join(", ")}`)
+              packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, mstDependenciesToRemove)
+            }
+
+            if (experimentalNewArch) {
+              log(`Swapping new architecture compatible dependencies...`)
+              packageJsonRaw = findAndUpdateDependencyVersions(
+                packageJsonRaw,
+                newArchCompatExpectedVersions,
+              )
+            }
+
+            // Then write it back out.
+            const packageJson = JSON.parse(packageJsonRaw)
+            write("./package.json", packageJson)
+
+            // fix .npmrc if using pnpm
+            if (packagerName === "pnpm") {
+              // append `node-linker=hoisted` to .npmrc
+              const npmrcPath = path(targetPath, ".npmrc")
+              const npmrcContents = read(npmrcPath)
+              write(npmrcPath, `${npmrcContents}${EOL}node-linker=hoisted${EOL}`)
+            } else if (packagerName === "yarn") {
+              const yarnVersion = await packager.run("-v", { packagerName })
+              const yarnMajorVersion = parseInt(yarnVersion.split(".")[0], 10)
+
+              // if yarn version > 1 fix .yarnrc.yml
+              if (yarnMajorVersion > 1) {
+                log(`yarn v${yarnMajorVersion} found... fixing .yarnrc.yml...`)
+                // append `nodeLinker: node-modules` to .yarnrc.yml
+                const yarnrcPath = path(targetPath, ".yarnrc.yml")
+                const yarnrcContents = read(yarnrcPath)
+                write(yarnrcPath, `${yarnrcContents ?? ""}${EOL}nodeLinker: node-modules${EOL}`)
+              }
+            }
+          },
+        },
+        {
+          name: "rename",
+          run: async () => {
+            // rename the app using Ignite
+            const renameSpinnerMsg = `Getting those last few details perfect`
+            startSpinner(renameSpinnerMsg)
+
+            const boilerplateBundleIdentifier = "com.helloworld"
+            await renameReactNativeApp(
+              toolbox,
+              "HelloWorld",
+              projectName,
+              boilerplateBundleIdentifier,
+              bundleIdentifier,
+            )
 
-        log(`Ignite bin path: ${IGNITE}`)
-        await system.run(
-          `${IGNITE} ${CMD} "${targetPath}" "${experimentalExpoRouter ? "src" : "app"}"`,
-          { onProgress: log },
-        )
-      } catch (e) {
-        log(e)
-        const additionalInfo =
-          stateMgmt === "none"
-            ? ` To perform updates manually, check out the recipe with full instructions: https://ignitecookbook.com/docs/recipes/RemoveMobxStateTree`
-            : ""
-        p(yellow(`Unable to remove MobX-State-Tree ${removeMstPart}.${additionalInfo}`))
-      }
-      stopSpinner(`Removing MobX-State-Tree ${removeMstPart}`, "🌳")
-      // #endregion
+            await replaceMaestroBundleIds(toolbox, boilerplateBundleIdentifier, bundleIdentifier)
 
-      // #region Run Format
-      const formattingMessage = `Cleaning up`
-      startSpinner(formattingMessage)
-      if (installDeps === true) {
-        // Make sure all our modifications are formatted nicely
-        await packager.run("format", { ...packagerOptions })
-      } else {
-        // if our linting configuration is not installed, try format
-        // using prettier to make sure it's reasonably close, but this will skip
-        // eslint issues
-        await system.run(`npx prettier@3.3.3 --write .`, {
-          trim: true,
-          cwd: targetPath,
-        })
-      }
-      stopSpinner(formattingMessage, "🧽")
-      // #endregion
+            stopSpinner(renameSpinnerMsg, "🎨")
+          },
+        },
+        {
+          name: "install",
+          run: async () => {
+            if (shouldUseCache) {
+              const msg = `Grabbing those ${packagerName} dependencies from the back`
+              startSpinner(msg)
+              await cache.copy({
+                fromRootDir: cachePath,
+                toRootDir: targetPath,
+                packagerName,
+              })
+              stopSpinner(msg, "📦")
+            }
+
+            if (shouldFreshInstallDeps) {
+              const unboxingMessage = `Installing ${packagerName} dependencies (wow these are heavy)`
+              startSpinner(unboxingMessage)
+
+              // do base install
+              const installCmd = packager.installCmd({ packagerName })
+              await system.run(installCmd, { onProgress: log })
+              // If they chose npm and also Expo Router, we need to run npm install ajv@^8 --legacy-peer-deps.
+              // see https://github.com/infinitered/ignite/issues/2840
+              if (packagerName === "npm" && experimentalExpoRouter) {
+                await system.run(`npm install ajv@^8 --legacy-peer-deps`, { onProgress: log })
+              }
+              // now that expo is installed, we can run their install --fix for best Expo SDK compatibility
+              // for right now, we don't do this in CI because it returns a non-zero exit code
+              // see https://docs.expo.dev/more/expo-cli/#version-validation
+              if (process.env.CI !== "true") {
+                const forwardOptions = packagerName === "npm" ? " -- --legacy-peer-deps" : ""
+                log("Running `npx expo install --fix...`")
+                await system.run(`npx expo install --fix${forwardOptions}`, { onProgress: log })
+              }
+
+              stopSpinner(unboxingMessage, "🧶")
+            }
+
+            // remove the gitignore template
+            await removeAsync(".gitignore.template")
+          },
+        },
+        {
+          name: "cache",
+          run: async () => {
+            if (shouldFreshInstallDeps && cacheExists === false && useCache) {
+              const msg = `Saving ${packagerName} dependencies for next time`
+              startSpinner(msg)
+              log(targetPath)
+              await cache.copy({
+                fromRootDir: targetPath,
+                toRootDir: cachePath,
+                packagerName,
+              })
+              stopSpinner(msg, "📦")
+            }
+          },
+        },
+        {
+          name: "appJson",
+          run: async () => {
+            // Enable New Architecture if requested (must happen before prebuild)
+            startSpinner("Configuring app.json")
+            try {
+              const appJsonRaw = read("app.json")
+              const appJson = JSON.parse(appJsonRaw)
+
+              // Record how the project was created, so later commands (generate, remove-demo,
+              // upgrade, etc.) know what they're working with
+              const igniteConfig: IgniteProjectConfig = {
+                version: igniteVersion,
+                workflow,
+                state: stateMgmt,
+                removeDemo,
+                expoRouter: experimentalExpoRouter,
+                newArch: experimentalNewArch,
+                packager: packagerName,
+                bundleIdentifier,
+              }
+              appJson.ignite = { ...appJson.ignite, ...igniteConfig }
+
+              if (experimentalNewArch === true) {
+                appJson.expo.plugins[1][1].ios.newArchEnabled = true
+                appJson.expo.plugins[1][1].android.newArchEnabled = true
+              }
+
+              if (experimentalExpoRouter) {
+                appJson.expo.experiments.typedRoutes = true
+                appJson.expo.plugins.push("expo-router")
+              }
+
+              write("./app.json", appJson)
+            } catch (e) {
+              log(e)
+              warning("Unable to configure app.json.")
+            }
+            stopSpinner("Configuring app.json", "⚙️")
+          },
+        },
+        {
+          name: "prebuild",
+          run: async () => {
+            // we can't run this option if we didn't install deps
+            if (installDeps === true) {
+              // Check if we need to run prebuild to generate native dirs based on workflow
+              // Prebuild also handles the packager install
+              const prebuildMessage = `Generating native template via Expo Prebuild`
+              startSpinner(prebuildMessage)
+              await packager.run("prebuild:clean", { ...packagerOptions, onProgress: log })
+              stopSpinner(prebuildMessage, "🛠️")
+            }
+          },
+        },
+        {
+          name: "removeDemo",
+          run: async () => {
+            const removeDemoPart = removeDemo === true ? "code" : "markup"
+            startSpinner(`Removing fancy demo ${removeDemoPart}`)
+            try {
+              const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
+              const markupOnly = removeDemo === true ? "" : " --markup-only"
+
+              log(`Ignite bin path: ${IGNITE}`)
+              await system.run(`${IGNITE} remove-feature demo "${targetPath}"${markupOnly}`, {
+                onProgress: log,
+              })
+            } catch (e) {
+              log(e)
+              warning(`Unable to remove demo ${removeDemoPart}.`)
+            }
+            stopSpinner(`Removing fancy demo ${removeDemoPart}`, "🛠️")
+          },
+        },
+        {
+          name: "expoRouter",
+          run: async () => {
+            if (experimentalExpoRouter) {
+              const expoRouterMsg = " Recalibrating compass with Expo Router"
+              startSpinner(expoRouterMsg)
+
+              /**
+               * Instructions mostly adapted from https://ignitecookbook.com/docs/recipes/ExpoRouter
+               * 1. Move all files from app/ to src/
+               * 2. Update code refs to app/ with src/
+               * 3. Refactor Reactotron commands to use `router` instead of refs to react navigation
+               * 4. Create a screen template that makes sense for Expo Router
+               * 5. Clean up - move ErrorBoundary to proper spot and remove unused files
+               */
+              filesystem
+                .cwd(targetPath)
+                .find("app")
+                .forEach((file) =>
+                  filesystem.cwd(targetPath).move(file, file.replace("app", "src")),
+                )
+              updateExpoRouterSrcDir(toolbox)
+              refactorExpoRouterReactotronCmds(toolbox)
+              createExpoRouterScreenTemplate(toolbox)
+              cleanupExpoRouterConversion(toolbox, targetPath)
+
+              stopSpinner(expoRouterMsg, "🧭")
+            } else {
+              // remove src/ dir since not using expo-router
+              filesystem.cwd(targetPath).remove("src")
+            }
+          },
+        },
+        {
+          name: "removeMst",
+          run: async () => {
+            const removeMstPart = stateMgmt === "none" ? "code" : "markup"
+            startSpinner(`Removing MobX-State-Tree ${removeMstPart}`)
+            try {
+              const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
+              const markupOnly = stateMgmt === "none" ? "" : " --markup-only"
+
+              log(`Ignite bin path: ${IGNITE}`)
+              await system.run(`${IGNITE} remove-feature mst "${targetPath}"${markupOnly}`, {
+                onProgress: log,
+              })
+            } catch (e) {
+              log(e)
+              const additionalInfo =
+                stateMgmt === "none"
+                  ? ` To perform updates manually, check out the recipe with full instructions: https://ignitecookbook.com/docs/recipes/RemoveMobxStateTree`
+                  : ""
+              warning(`Unable to remove MobX-State-Tree ${removeMstPart}.${additionalInfo}`)
+            }
+            stopSpinner(`Removing MobX-State-Tree ${removeMstPart}`, "🌳")
+          },
+        },
+        {
+          name: "format",
+          run: async () => {
+            const formattingMessage = `Cleaning up`
+            startSpinner(formattingMessage)
+            if (installDeps === true) {
+              // Make sure all our modifications are formatted nicely
+              await packager.run("format", { ...packagerOptions })
+            } else {
+              // if our linting configuration is not installed, try format
+              // using prettier to make sure it's reasonably close, but this will skip
+              // eslint issues
+              await system.run(`npx prettier@3.3.3 --write .`, {
+                trim: true,
+                cwd: targetPath,
+              })
+            }
+            stopSpinner(formattingMessage, "🧽")
+
+            if (isWindows) {
+              try {
+                const templates = filesystem.find(`${targetPath}/ignite/templates`, {
+                  directories: false,
+                  files: true,
+                  matching: "*.ejs",
+                })
+
+                log(`templates to change EOL: ${templates}`)
+                templates.map(async (file) => {
+                  log(`Converting EOL for ${file}`)
+                  let template = read(file)
+                  template = template.replace(/\n/g, "\r\n")
+                  write(file, template)
+                })
+              } catch {
+                warnAboutEOL = true
+              }
+            }
+          },
+        },
+        {
+          name: "git",
+          run: async () => {
+            // the state file shouldn't end up in the initial commit;
+            // it's written again once this step is done, then removed for good
+            removeCreationState(targetPath)
+
+            // commit any changes
+            if (git === true) {
+              startSpinner(" Backing everything up in source control")
+              try {
+                // The separate commands works on Windows, but not Mac OS
+                if (isWindows) {
+                  await system.run(log("git init"))
+                  await system.run(log("git add -A"))
+                  await system.run(log(`git commit -m "New Ignite ${meta.version()} app`))
+                } else {
+                  await system.run(
+                    log(`
+                    \\rm -rf ./.git
+                    git init;
+                    git add -A;
+                    git commit -m "New Ignite ${meta.version()} app";
+                  `),
+                  )
+                }
+              } catch (e) {
+                warning(
+                  "Unable to commit the initial changes. Please check your git username and email.",
+                )
+              }
+              stopSpinner(" Backing everything up in source control", "🗄")
+            }
+          },
+        },
+      ]
 
-      // #region Format generator templates EOL for Windows
-      let warnAboutEOL = false
-      if (isWindows) {
-        try {
-          const templates = filesystem.find(`${targetPath}/ignite/templates`, {
-            directories: false,
-            files: true,
-            matching: "*.ejs",
-          })
-
-          log(`templates to change EOL: ${templates}`)
-          templates.map(async (file) => {
-            log(`Converting EOL for ${file}`)
-            let template = read(file)
-            template = template.replace(/\n/g, "\r\n")
-            write(file, template)
-          })
-        } catch {
-          warnAboutEOL = true
-        }
-      }
+      // resumed runs start in the project, since the copy step already moved us there
+      if (state.completed.includes("copy")) process.chdir(targetPath)
+      await runCreationSteps(steps, { targetPath, state })
+      removeCreationState(targetPath)
       // #endregion
 
-      // #region Create Git Repository and Initial Commit
-      // commit any changes
-      if (git === true) {
-        startSpinner(" Backing everything up in source control")
-        try {
-          // The separate commands works on Windows, but not Mac OS
-          if (isWindows) {
-            await system.run(log("git init"))
-            await system.run(log("git add -A"))
-            await system.run(log(`git commit -m "New Ignite ${meta.version()} app`))
-          } else {
-            await system.run(
-              log(`
-              \\rm -rf ./.git
-              git init;
-              git add -A;
-              git commit -m "New Ignite ${meta.version()} app";
-            `),
-            )
-          }
-        } catch (e) {
-          p(
-            yellow(
-              "Unable to commit the initial changes. Please check your git username and email.",
-            ),
-          )
-        }
-        stopSpinner(" Backing everything up in source control", "🗄")
-      }
-
       // back to the original directory
       process.chdir(log(cwd))
       // #endregion
@@ -976,12 +1223,19 @@ module.exports = {
       clearSpinners()
 
       // we're done! round performance stats to .xx digits
-      const perfDuration = Math.round((new Date().getTime() - perfStart) / 10) / 100
+      const seconds = (ms: number) => Math.round(ms / 10) / 100
+      const stepTimings = creationStepNames
+        .filter((name) => state.timings[name] !== undefined)
+        .map((name) => [name, state.timings[name]] as const)
+      const perfDuration = seconds(stepTimings.reduce((total, [, ms]) => total + ms, 0))
 
       // no need to timeout, we're done!
       clearTimeout(timeout)
 
       p2(`Ignited ${em(`${projectName}`)} in ${gray(`${perfDuration}s`)}  🚀 `)
+      stepTimings.forEach(([name, ms]) =>
+        p2(gray(`${CMD_INDENT}${padEnd(name, 14)}${seconds(ms)}s`)),
+      )
       p2()
       const cliCommand = buildCliCommand({
         flags: {
@@ -1002,11 +1256,32 @@ module.exports = {
           yes: yname,
           noTimeout,
           state: stateMgmt,
+          config: undefined,
+          saveConfig: undefined,
+          dryRun: undefined,
+          json: undefined,
+          resume: undefined,
+          rollbackOnError: undefined,
         },
         projectName,
         toolbox,
       })
 
+      jsonOutput.result({
+        projectName,
+        targetPath,
+        bundleIdentifier,
+        packager: packagerName,
+        workflow,
+        state: stateMgmt,
+        removeDemo,
+        experimental: experimentalFlags,
+        git,
+        installDeps,
+        cliCommand,
+        steps: state.timings,
+      })
+
       p2(`For next time, here are the Ignite options you picked:`)
 
       // create a multi-line string of the command, where each --flag is on it's own line
@@ -1020,6 +1295,29 @@ module.exports = {
       command(`${prettyCliCommand}`)
       p2()
 
+      // #region Save Config File
+      const saveConfigPath = configFilePath(options.saveConfig, cwd)
+      if (saveConfigPath) {
+        writeConfigFile(saveConfigPath, {
+          bundle: bundleIdentifier,
+          packager: packagerName,
+          workflow,
+          state: stateMgmt,
+          removeDemo,
+          experimental: experimentalFlags.length > 0 ? experimentalFlags.join(",") : undefined,
+          git,
+          installDeps,
+          // relative, so the file can be checked in and shared
+          targetPath:
+            targetPathOption === undefined ? undefined : pathlib.relative(cwd, targetPath) || ".",
+        })
+        jsonOutput.result({ configFile: saveConfigPath })
+        p2(`Saved these options to ${underline(saveConfigPath)}; reuse them with:`)
+        command(`npx ignite-cli new ${projectName} --config=${saveConfigPath}`)
+        p2()
+      }
+      // #endregion
+
       if (!isAndroidInstalled(toolbox)) {
         hr()
         p2()
@@ -1073,6 +1371,18 @@ module.exports = {
       p2(red(`\nThe following error occurred:`))
       p2()
       p2(red(e.toString()))
+      jsonOutput.error(e.toString())
+
+      process.chdir(cwd)
+      if (rollbackOnError) {
+        await removeAsync(targetPath)
+        p2()
+        p2(yellow(`Rolled back: removed ${targetPath}`))
+      } else if (state.failed) {
+        p2()
+        p2(`To continue from the "${state.failed.step}" step, run:`)
+        command(`npx ignite-cli new ${projectName} --targetPath=${targetPath} --resume`)
+      }
 
       p2()
       p2("Consider opening an issue with the following information at:")
@@ -1083,6 +1393,9 @@ module.exports = {
       )
       p2()
 
+      // the doctor report is for humans; JSON consumers get the error above
+      if (json) process.exit(1)
+
       startSpinner(" Gathering system and project details")
       try {
         const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
@@ -1109,7 +1422,20 @@ function buildCliCommand(args: {
   type Flag = keyof typeof flags
   type FlagEntry = [key: Flag, value: Options[Flag]]
 
-  const privateFlags: Flag[] = ["b", "boilerplate", "debug", "useCache", "y", "yes"]
+  const privateFlags: Flag[] = [
+    "b",
+    "boilerplate",
+    "debug",
+    "useCache",
+    "y",
+    "yes",
+    "config",
+    "saveConfig",
+    "dryRun",
+    "json",
+    "resume",
+    "rollbackOnError",
+  ]
 
   const stringFlag = ([key, value]: FlagEntry) => `--${kebabCase(key)}=${value}`
   const booleanFlag = ([key, value]: FlagEntry) =>
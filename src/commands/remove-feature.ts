@@ -0,0 +1,31 @@
+import { GluegunToolbox } from "gluegun"
+import { boolFlag } from "../tools/flag"
+import { removeFeature } from "../tools/features"
+import { command, jsonOutput, p, warning } from "../tools/pretty"
+
+module.exports = {
+  alias: ["rf"],
+  description:
+    "Remove a feature marked with // @<feature> comments. Add --markup-only to keep the code, --dry-run to see what would be removed.",
+  run: async (toolbox: GluegunToolbox) => {
+    const { parameters } = toolbox
+
+    const name = parameters.first
+    if (!name) {
+      jsonOutput.start("remove-feature", parameters.options)
+      warning(`⚠️  Please specify the feature to remove:`)
+      jsonOutput.error("Please specify the feature to remove.")
+      p()
+      command(`npx ignite-cli remove-feature analytics`)
+      process.exitCode = 1
+      return
+    }
+
+    await removeFeature(toolbox, {
+      name,
+      targetDir: parameters.second,
+      markupOnly: boolFlag(parameters.options.markupOnly) ?? false,
+      command: "remove-feature",
+    })
+  },
+}
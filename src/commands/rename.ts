@@ -1,5 +1,6 @@
 import { GluegunToolbox } from "gluegun"
-import { direction, heading, p, warning } from "../tools/pretty"
+import { direction, heading, jsonOutput, p, warning } from "../tools/pretty"
+import { readIgniteConfig, updateIgniteConfig } from "../tools/project"
 import { renameReactNativeApp } from "../tools/react-native"
 
 module.exports = {
@@ -7,8 +8,10 @@ module.exports = {
   description: "Renames a React Native and/or Ignite app",
   run: async (toolbox: GluegunToolbox) => {
     const { parameters, prompt, filesystem, print } = toolbox
-    const { colors, info } = print
+    const { colors } = print
     const { red, green } = colors
+    const json = jsonOutput.start("rename", parameters.options)
+    const info = (m: string) => !json && print.info(m)
 
     let newName = parameters.first
     let newBundleIdentifier = parameters.options.bundle
@@ -18,6 +21,7 @@ module.exports = {
     if (!filesystem.exists(appJsonPath)) {
       warning("You must be in the root of a React Native project to rename it.")
       warning("(We look for an app.json file to verify this.)")
+      jsonOutput.error("You must be in the root of a React Native project to rename it.")
       return
     }
 
@@ -26,21 +30,26 @@ module.exports = {
     const oldName = appJson.name
     if (!oldName) {
       warning("Couldn't find the current name in app.json.")
+      jsonOutput.error("Couldn't find the current name in app.json.")
       return
     }
 
     // then, get the package name from Android or ios if it DNE
     // we do this via app.json now as android/ios dirs may not exist to find AndroidManifest/gradle files
     // in the case of a managed or custom workflow setup, so ignite v9+ compatible
-    const oldBundleIdentifier = appJson.expo.android.package ?? appJson.expo.ios.bundleIdentifier
+    const oldBundleIdentifier =
+      readIgniteConfig().bundleIdentifier ??
+      appJson.expo.android.package ??
+      appJson.expo.ios.bundleIdentifier
     if (!oldBundleIdentifier) {
       warning("Couldn't find the current name in app.json.")
+      jsonOutput.error("Couldn't find the current bundle identifier in app.json.")
       return
     }
 
     // name and bundle validations
-    // check the name
-    if (!newName) {
+    // check the name (there's nobody to ask with --json, so it has to be passed)
+    if (!newName && !json) {
       // ask for a name
       const result = await prompt.ask({
         type: "input",
@@ -53,11 +62,12 @@ module.exports = {
     if (!newName) {
       // no name, no go
       warning("No name provided, nothing to do.")
+      jsonOutput.error("No name provided, nothing to do.")
       return
     }
 
     // check the package name
-    if (!newBundleIdentifier) {
+    if (!newBundleIdentifier && !json) {
       // ask for a name
       const result = await prompt.ask({
         type: "input",
@@ -70,6 +80,7 @@ module.exports = {
     if (!newBundleIdentifier) {
       // no name, no go
       warning("No package name provided, nothing to do.")
+      jsonOutput.error("No package name provided, nothing to do.")
       return
     }
 
@@ -77,10 +88,13 @@ module.exports = {
 
     if (oldName === newName) {
       warning("The current name and the new name are the same.")
+      jsonOutput.error("The current name and the new name are the same.")
       return
     }
 
     await renameReactNativeApp(toolbox, oldName, newName, oldBundleIdentifier, newBundleIdentifier)
+    updateIgniteConfig({ bundleIdentifier: newBundleIdentifier })
+    jsonOutput.result({ oldName, newName, oldBundleIdentifier, newBundleIdentifier })
 
     heading(`Ignite successfully renamed your app from ${red(oldName)} to ${green(newName)}!`)
     p()
@@ -1,16 +1,18 @@
 import { GluegunToolbox } from "gluegun"
 import { showGeneratorHelp, updateGenerators } from "../tools/generators"
-import { p, warning } from "../tools/pretty"
+import { jsonOutput, p, warning } from "../tools/pretty"
 
 module.exports = {
   description: "Update generator templates",
   run: async (toolbox: GluegunToolbox) => {
     const { parameters } = toolbox
+    jsonOutput.start("update", parameters.options)
     p()
-    if (parameters.options.all || parameters.first) {
-      updateGenerators(toolbox)
+    if (parameters.options.all || parameters.options.from || parameters.first) {
+      await updateGenerators(toolbox)
     } else {
       warning(`⚠️  Update what?`)
+      jsonOutput.error("Specify a generator to update, or pass --all.")
       p()
       showGeneratorHelp(toolbox)
     }
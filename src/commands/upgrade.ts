@@ -0,0 +1,156 @@
+import { GluegunToolbox } from "gluegun"
+import * as os from "os"
+import { boolFlag } from "../tools/flag"
+import {
+  heading,
+  jsonOutput,
+  p,
+  startSpinner,
+  stopLastSpinner,
+  stopSpinner,
+  warning,
+} from "../tools/pretty"
+import {
+  fetchBoilerplate,
+  materializeBoilerplate,
+  threeWayMerge,
+  UpgradeFileStatus,
+} from "../tools/upgrade"
+import { appDirName, readIgniteConfig, updateIgniteConfig } from "../tools/project"
+
+const statusLabels: Record<UpgradeFileStatus, string> = {
+  updated: "Updated",
+  added: "Added",
+  removed: "Removed",
+  merged: "Merged",
+  conflict: "Conflicts (look for <<<<<<< markers)",
+  rejected: "Rejected (see the .rej files)",
+}
+
+module.exports = {
+  description:
+    "Merges boilerplate changes from this version of Ignite into your app. Add --dry-run to see what would change.",
+  run: async (toolbox: GluegunToolbox) => {
+    const { parameters, filesystem, meta } = toolbox
+    const { exists, path, read } = filesystem
+
+    const dryRun = boolFlag(parameters.options.dryRun) ?? false
+    jsonOutput.start("upgrade", parameters.options)
+
+    const projectPath = process.cwd()
+    const fail = (message: string) => {
+      warning(`⚠️  ${message}`)
+      jsonOutput.error(message)
+    }
+
+    if (exists(path(projectPath, "app.json")) !== "file") {
+      fail("You must be in the root of an Ignite project to upgrade it.")
+      return
+    }
+    const igniteConfig = readIgniteConfig(projectPath)
+    if (appDirName(projectPath) === "src") {
+      fail("Upgrading apps that were converted to Expo Router isn't supported yet.")
+      return
+    }
+
+    const appJson = read(path(projectPath, "app.json"), "json")
+    const fromVersion: string | undefined = parameters.options.from ?? igniteConfig.version
+    const toVersion = meta.version()
+    if (!fromVersion) {
+      fail(
+        "Couldn't find ignite.version in app.json. Pass the version you started with: --from=x.y.z",
+      )
+      return
+    }
+
+    p()
+    if (fromVersion === toVersion) {
+      p(`Already on Ignite ${toVersion}, nothing to upgrade.`)
+      jsonOutput.result({ from: fromVersion, to: toVersion, dryRun, changes: [] })
+      return
+    }
+
+    // recreate both boilerplates the way `ignite new` made this app, going by what it recorded
+    // in app.json; older apps didn't record their choices, so look for telltale files instead
+    const removeDemo =
+      boolFlag(parameters.options.removeDemo) ??
+      igniteConfig.removeDemo ??
+      exists(path(projectPath, "app", "screens", "DemoShowroomScreen")) !== "dir"
+    const stateMgmt =
+      parameters.options.state ??
+      igniteConfig.state ??
+      (exists(path(projectPath, "app", "models", "RootStore.ts")) ? "mst" : "none")
+    const materializeOptions = {
+      projectName: appJson.name,
+      bundleIdentifier:
+        igniteConfig.bundleIdentifier ??
+        appJson.expo.android?.package ??
+        appJson.expo.ios?.bundleIdentifier,
+      removeDemo,
+      stateMgmt,
+      igniteConfig,
+    }
+
+    p(`Upgrading from Ignite ${fromVersion} to ${toVersion}${dryRun ? " (dry run)" : ""}`)
+    p()
+
+    const tempPath = path(os.tmpdir(), `ignite-upgrade-${Date.now()}`)
+    const basePath = path(tempPath, "base")
+    const theirsPath = path(tempPath, "theirs")
+    try {
+      const fetchMsg = `Downloading Ignite ${fromVersion}`
+      startSpinner(fetchMsg)
+      const oldBoilerplatePath = await fetchBoilerplate(fromVersion, path(tempPath, "download"))
+      stopSpinner(fetchMsg, "📦")
+
+      const buildMsg = "Rebuilding both boilerplates with your app's options"
+      startSpinner(buildMsg)
+      await materializeBoilerplate(toolbox, {
+        ...materializeOptions,
+        boilerplatePath: oldBoilerplatePath,
+        targetPath: basePath,
+        igniteVersion: fromVersion,
+      })
+      await materializeBoilerplate(toolbox, {
+        ...materializeOptions,
+        boilerplatePath: path(`${meta.src}`, "..", "boilerplate"),
+        targetPath: theirsPath,
+        igniteVersion: toVersion,
+      })
+      stopSpinner(buildMsg, "🛠️")
+
+      const changes = threeWayMerge({ basePath, theirsPath, projectPath, dryRun })
+
+      // usually already handled by the merge, but make sure the recorded version moves along
+      if (!dryRun) {
+        try {
+          updateIgniteConfig({ version: toVersion }, projectPath)
+        } catch {
+          warning(`Couldn't update ignite.version in app.json; set it to ${toVersion} by hand.`)
+        }
+      }
+
+      jsonOutput.result({ from: fromVersion, to: toVersion, dryRun, changes })
+
+      p()
+      if (changes.length === 0) p("No boilerplate changes apply to your app.")
+      Object.keys(statusLabels).forEach((status: UpgradeFileStatus) => {
+        const paths = changes.filter((c) => c.status === status).map((c) => c.path)
+        if (paths.length === 0) return
+        heading(`${statusLabels[status]}:`)
+        paths.forEach((changedPath) => p(`  ${changedPath}`))
+        p()
+      })
+
+      const conflicts = changes.filter((c) => c.status === "conflict" || c.status === "rejected")
+      if (conflicts.length > 0 && !dryRun) {
+        warning(`Resolve ${conflicts.length} file(s) by hand, then run your app to check it over.`)
+      }
+    } catch (e) {
+      stopLastSpinner("❌")
+      fail(`Upgrade failed: ${e.message ?? e}`)
+    } finally {
+      filesystem.remove(tempPath)
+    }
+  },
+}
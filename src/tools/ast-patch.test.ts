@@ -0,0 +1,147 @@
+import { applyAstPatch, AstPatch, revertAstPatch } from "./ast-patch"
+
+const rootStore = `import { Instance, types } from "mobx-state-tree"
+import { EpisodeStoreModel } from "./EpisodeStore"
+
+export const RootStoreModel = types.model("RootStore").props({
+  episodeStore: types.optional(EpisodeStoreModel, {}),
+})
+`
+
+const navigator = `export type AppStackParamList = {
+  Welcome: undefined
+  // 🔥 Your screens go here
+}
+
+const AppStack = () => {
+  return (
+    <Stack.Navigator screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="Welcome" component={Screens.WelcomeScreen} />
+    </Stack.Navigator>
+  )
+}
+`
+
+describe("ast-patch", () => {
+  const roundTrip = (fileName: string, contents: string, patch: AstPatch) => {
+    const patched = applyAstPatch(fileName, contents, patch)
+    expect(patched.alreadyPresent).toBe(false)
+    expect(applyAstPatch(fileName, patched.contents, patch)).toEqual({
+      contents: patched.contents,
+      alreadyPresent: true,
+    })
+    expect(revertAstPatch(fileName, patched.contents, patch)).toBe(contents)
+    return patched.contents
+  }
+
+  it("should add imports and properties to a model, however it's formatted", () => {
+    const patch = {
+      addImport: { from: "./TodoStore", names: ["TodoStoreModel"] },
+      addProperty: {
+        to: "RootStoreModel",
+        property: "todoStore: types.optional(TodoStoreModel, {})",
+      },
+    }
+
+    expect(roundTrip("RootStore.ts", rootStore, patch)).toBe(
+      rootStore
+        .replace(
+          `"./EpisodeStore"\n`,
+          `"./EpisodeStore"\nimport { TodoStoreModel } from "./TodoStore"\n`,
+        )
+        .replace("{}),\n})", "{}),\n  todoStore: types.optional(TodoStoreModel, {}),\n})"),
+    )
+
+    const oneLine = `export const RootStoreModel = types.model("RootStore").props({ a: 1 })\n`
+    expect(applyAstPatch("RootStore.ts", oneLine, patch).contents).toContain(
+      `.props({ a: 1, todoStore: types.optional(TodoStoreModel, {}) })`,
+    )
+  })
+
+  it("should merge names into an existing import", () => {
+    const patch = { addImport: { from: "mobx-state-tree", names: ["SnapshotOut", "types"] } }
+
+    expect(roundTrip("RootStore.ts", rootStore, patch)).toContain(
+      `import { Instance, types, SnapshotOut } from "mobx-state-tree"`,
+    )
+  })
+
+  it("should indent multi-line properties", () => {
+    const patch = {
+      addProperty: {
+        to: "RootStoreModel",
+        property: "todoStore: types.optional(TodoStoreModel, {\n  todos: [],\n})",
+      },
+    }
+
+    expect(roundTrip("RootStore.ts", rootStore, patch)).toContain(
+      "  todoStore: types.optional(TodoStoreModel, {\n    todos: [],\n  }),\n})",
+    )
+  })
+
+  it("should add methods to a class", () => {
+    const api = [
+      "export class Api {",
+      "  constructor() {",
+      "    this.ready = true",
+      "  }",
+      "",
+      "  // @demo remove-block-start",
+      "  async getEpisodes() {",
+      "    return []",
+      "  }",
+      "  // @demo remove-block-end",
+      "}",
+      "",
+    ].join("\n")
+    const patch = {
+      addProperty: {
+        to: "Api",
+        property: "/**\n * Gets the todos.\n */\nasync getTodos() {\n  return []\n}",
+      },
+    }
+
+    expect(roundTrip("api.ts", api, patch)).toContain(
+      "  // @demo remove-block-end\n\n  /**\n   * Gets the todos.\n   */\n  async getTodos() {\n    return []\n  }\n}",
+    )
+  })
+
+  it("should add screens to the param list and navigator", () => {
+    const patch = {
+      addProperty: { to: "AppStackParamList", property: "Profile: undefined" },
+      addJsxChild: {
+        to: "Stack.Navigator",
+        child: `<Stack.Screen name="Profile" component={Screens.ProfileScreen} />`,
+      },
+    }
+
+    const patched = roundTrip("AppNavigator.tsx", navigator, patch)
+    expect(patched).toContain("  // 🔥 Your screens go here\n  Profile: undefined\n}")
+    expect(patched).toContain(
+      `      <Stack.Screen name="Profile" component={Screens.ProfileScreen} />\n    </Stack.Navigator>`,
+    )
+  })
+
+  it("should add exports to a barrel file", () => {
+    const barrel = `export * from "./WelcomeScreen"\n// export other screens here\n`
+
+    expect(roundTrip("index.ts", barrel, { addExport: "./ProfileScreen" })).toBe(
+      `export * from "./WelcomeScreen"\nexport * from "./ProfileScreen"\n// export other screens here\n`,
+    )
+    expect(
+      roundTrip("index.ts", barrel, { addExport: { from: "./Profile", names: ["Profile"] } }),
+    ).toContain(`export { Profile } from "./Profile"`)
+  })
+
+  it("should throw when the target can't be found", () => {
+    expect(() =>
+      applyAstPatch("RootStore.ts", rootStore, {
+        addProperty: { to: "Missing", property: "a: 1" },
+      }),
+    ).toThrow("Couldn't find an object or type named Missing")
+    const addToTabs = { addJsxChild: { to: "Tab.Navigator", child: "<A />" } }
+    expect(() => applyAstPatch("AppNavigator.tsx", navigator, addToTabs)).toThrow(
+      "Couldn't find a <Tab.Navigator> element",
+    )
+  })
+})
@@ -0,0 +1,422 @@
+import * as ts from "typescript"
+
+/**
+ * Patch operations that find their target in the parsed TypeScript, so they keep working
+ * after the file is reformatted. Used from template front matter `patches`.
+ */
+export type AstPatch = {
+  /** `export * from "<module>"`, or `export { <names> } from "<module>"` */
+  addExport?: string | { from: string; names?: string[] }
+  /** `import { <names> } from "<module>"`, merged into an existing import from the module */
+  addImport?: { from: string; names: string[] }
+  /**
+   * adds a property to the first object or type literal in the declaration named `to`, or a
+   * member to the class named `to`
+   */
+  addProperty?: { to: string; property: string }
+  /** adds a child before the closing tag of the first `<to>` element */
+  addJsxChild?: { to: string; child: string }
+}
+
+type Literal =
+  | ts.ObjectLiteralExpression
+  | ts.TypeLiteralNode
+  | ts.InterfaceDeclaration
+  | ts.ClassDeclaration
+
+function parse(fileName: string, contents: string) {
+  const kind = /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  return ts.createSourceFile(fileName, contents, ts.ScriptTarget.Latest, true, kind)
+}
+
+function lineStart(text: string, pos: number) {
+  return text.lastIndexOf("\n", pos - 1) + 1
+}
+
+function lineEnd(text: string, pos: number) {
+  const index = text.indexOf("\n", pos)
+  return index === -1 ? text.length : index
+}
+
+function indentOf(text: string, pos: number) {
+  return /^[ \t]*/.exec(text.slice(lineStart(text, pos)))[0]
+}
+
+function insertLineAfter(text: string, pos: number, line: string) {
+  const end = lineEnd(text, pos)
+  return `${text.slice(0, end)}\n${line}${text.slice(end)}`
+}
+
+function appendLine(text: string, line: string) {
+  const separator = text === "" || text.endsWith("\n") ? "" : "\n"
+  return `${text}${separator}${line}\n`
+}
+
+/** Removes a node, along with its line if nothing else is on it */
+function removeNode(text: string, start: number, end: number) {
+  const from = lineStart(text, start)
+  const to = lineEnd(text, end)
+  if (text.slice(from, start).trim() === "" && /^[,;]?\s*$/.test(text.slice(end, to))) {
+    return text.slice(0, from) + text.slice(Math.min(to + 1, text.length))
+  }
+  return text.slice(0, start) + text.slice(end)
+}
+
+/** Removes a class member, and the blank line `addProperty` put above it */
+function removeClassMember(text: string, start: number, end: number) {
+  const from = lineStart(text, start)
+  const result = removeNode(text, start, end)
+  const above = lineStart(result, from - 1)
+  if (from === 0 || result.slice(above, from).trim() !== "") return result
+  return result.slice(0, above) + result.slice(from)
+}
+
+/** Removes one element of a comma-separated list, e.g. an import specifier */
+function removeListElement(
+  text: string,
+  sf: ts.SourceFile,
+  elements: ts.NodeArray<ts.Node>,
+  index: number,
+) {
+  const element = elements[index]
+  if (index > 0) return text.slice(0, elements[index - 1].end) + text.slice(element.end)
+  if (elements.length > 1) {
+    return text.slice(0, element.getStart(sf)) + text.slice(elements[1].getStart(sf))
+  }
+  return text.slice(0, element.getStart(sf)) + text.slice(element.end)
+}
+
+function moduleName(node: ts.ImportDeclaration | ts.ExportDeclaration) {
+  const specifier = node.moduleSpecifier
+  return specifier && ts.isStringLiteral(specifier) ? specifier.text : undefined
+}
+
+function nameText(name: ts.Node | undefined) {
+  if (!name) return undefined
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) return name.text
+  return name.getText()
+}
+
+function normalize(code: string) {
+  return code
+    .replace(/\s+/g, " ")
+    .replace(/\s*\/>$/, "/>")
+    .trim()
+}
+
+function findNode<T extends ts.Node>(
+  node: ts.Node,
+  test: (node: ts.Node) => node is T,
+): T | undefined {
+  if (test(node)) return node
+  return ts.forEachChild(node, (child) => findNode(child, test))
+}
+
+/**
+ * The object or type literal declared as `name`, e.g. `RootStoreModel` or `AppStackParamList`,
+ * or the class named `name`
+ */
+function findLiteral(sf: ts.SourceFile, name: string): Literal | undefined {
+  const declaration = findNode(
+    sf,
+    (
+      node,
+    ): node is
+      | ts.VariableDeclaration
+      | ts.TypeAliasDeclaration
+      | ts.InterfaceDeclaration
+      | ts.ClassDeclaration =>
+      (ts.isVariableDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isClassDeclaration(node)) &&
+      nameText(node.name) === name,
+  )
+  if (!declaration) return undefined
+  if (ts.isInterfaceDeclaration(declaration) || ts.isClassDeclaration(declaration)) {
+    return declaration
+  }
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    return findNode(declaration.type, ts.isTypeLiteralNode)
+  }
+  return declaration.initializer && findNode(declaration.initializer, ts.isObjectLiteralExpression)
+}
+
+function literalMembers(
+  literal: Literal,
+): ts.NodeArray<ts.ObjectLiteralElement | ts.TypeElement | ts.ClassElement> {
+  return ts.isObjectLiteralExpression(literal) ? literal.properties : literal.members
+}
+
+/** Parses the name out of a property like `episodeStore: types.optional(...)` */
+function propertyName(property: string, target: Literal) {
+  let parsed: Literal
+  if (ts.isObjectLiteralExpression(target)) {
+    parsed = findNode(parse("property.ts", `({ ${property} })`), ts.isObjectLiteralExpression)
+  } else if (ts.isClassDeclaration(target)) {
+    parsed = findNode(parse("property.ts", `class C { ${property} }`), ts.isClassDeclaration)
+  } else {
+    parsed = findNode(parse("property.ts", `type T = { ${property} }`), ts.isTypeLiteralNode)
+  }
+  const name = parsed && nameText(literalMembers(parsed)[0]?.name)
+  if (!name) throw new Error(`Couldn't parse the property ${JSON.stringify(property)}.`)
+  return name
+}
+
+function findJsxElement(sf: ts.SourceFile, tag: string) {
+  return findNode(
+    sf,
+    (node): node is ts.JsxElement =>
+      ts.isJsxElement(node) && node.openingElement.tagName.getText(sf) === tag,
+  )
+}
+
+function addExport(
+  sf: ts.SourceFile,
+  text: string,
+  spec: AstPatch["addExport"],
+): string | undefined {
+  const from = typeof spec === "string" ? spec : spec.from
+  const names = typeof spec === "string" ? undefined : spec.names
+  const exports = sf.statements.filter(ts.isExportDeclaration)
+  const fromModule = exports.filter((e) => moduleName(e) === from)
+
+  // a star export already covers any names
+  if (fromModule.some((e) => !e.exportClause)) return undefined
+
+  const named = fromModule.find((e) => e.exportClause && ts.isNamedExports(e.exportClause))
+  if (names && named) {
+    const elements = (named.exportClause as ts.NamedExports).elements
+    const missing = names.filter((n) => !elements.some((el) => el.name.text === n))
+    if (missing.length === 0) return undefined
+    const last = elements[elements.length - 1]
+    return text.slice(0, last.end) + `, ${missing.join(", ")}` + text.slice(last.end)
+  }
+
+  const line = names ? `export { ${names.join(", ")} } from "${from}"` : `export * from "${from}"`
+  const lastExport = exports[exports.length - 1]
+  return lastExport ? insertLineAfter(text, lastExport.end, line) : appendLine(text, line)
+}
+
+function addImport(sf: ts.SourceFile, text: string, spec: AstPatch["addImport"]) {
+  const imports = sf.statements.filter(ts.isImportDeclaration)
+  const existing = imports.find((i) => {
+    const bindings = i.importClause?.namedBindings
+    return (
+      moduleName(i) === spec.from &&
+      !i.importClause.isTypeOnly &&
+      bindings &&
+      ts.isNamedImports(bindings)
+    )
+  })
+
+  if (existing) {
+    const elements = (existing.importClause.namedBindings as ts.NamedImports).elements
+    const missing = spec.names.filter((n) => !elements.some((el) => el.name.text === n))
+    if (missing.length === 0) return undefined
+    const last = elements[elements.length - 1]
+    return text.slice(0, last.end) + `, ${missing.join(", ")}` + text.slice(last.end)
+  }
+
+  const line = `import { ${spec.names.join(", ")} } from "${spec.from}"`
+  const lastImport = imports[imports.length - 1]
+  return lastImport ? insertLineAfter(text, lastImport.end, line) : `${line}\n${text}`
+}
+
+function addProperty(sf: ts.SourceFile, text: string, spec: AstPatch["addProperty"]) {
+  const literal = findLiteral(sf, spec.to)
+  if (!literal) throw new Error(`Couldn't find an object or type named ${spec.to}.`)
+
+  const isObject = ts.isObjectLiteralExpression(literal)
+  const members = literalMembers(literal)
+  const name = propertyName(spec.property, literal)
+  if (members.some((m) => nameText(m.name) === name)) return undefined
+
+  const close = literal.end - 1
+  if (members.length === 0) {
+    const open = text.indexOf("{", literal.getStart(sf))
+    const indent = indentOf(text, open)
+    const inner = `\n${indent}  ${spec.property}${isObject ? "," : ""}\n${indent}`
+    return text.slice(0, open + 1) + inner + text.slice(close)
+  }
+
+  // match the existing separators: commas in objects; `;`, `,` or nothing in types
+  const last = members[members.length - 1]
+  const lastText = last.getText(sf)
+  const typeSeparator = /[;,]$/.test(lastText) ? lastText.slice(-1) : ""
+
+  if (text.slice(lineStart(text, close), close).trim() !== "") {
+    // all on one line, e.g. `{ a: 1 }`
+    const insert = isObject
+      ? `, ${spec.property}`
+      : `${typeSeparator ? "" : ";"} ${spec.property}${typeSeparator}`
+    return text.slice(0, last.end) + insert + text.slice(last.end)
+  }
+
+  let result = text
+  if (isObject && !members.hasTrailingComma) {
+    result = text.slice(0, last.end) + "," + text.slice(last.end)
+  }
+  const separator = isObject ? (members.hasTrailingComma ? "," : "") : typeSeparator
+  const insertAt = lineStart(result, close + result.length - text.length)
+  // multi-line properties are indented as a whole; class members get a blank line between them
+  const indent = indentOf(text, last.getStart(sf))
+  const property = spec.property
+    .split("\n")
+    .map((line) => (line ? indent + line : line))
+    .join("\n")
+  const gap = ts.isClassDeclaration(literal) ? "\n" : ""
+  const line = `${gap}${property}${separator}\n`
+  return result.slice(0, insertAt) + line + result.slice(insertAt)
+}
+
+function addJsxChild(sf: ts.SourceFile, text: string, spec: AstPatch["addJsxChild"]) {
+  const element = findJsxElement(sf, spec.to)
+  if (!element) throw new Error(`Couldn't find a <${spec.to}> element.`)
+  if (element.children.some((c) => normalize(c.getText(sf)) === normalize(spec.child))) {
+    return undefined
+  }
+
+  const close = element.closingElement.getStart(sf)
+  const closeLine = lineStart(text, close)
+  if (text.slice(closeLine, close).trim() !== "") {
+    return text.slice(0, close) + spec.child + text.slice(close)
+  }
+  const indent = `${indentOf(text, close)}  `
+  const child = spec.child
+    .split("\n")
+    .map((line) => indent + line)
+    .join("\n")
+  return `${text.slice(0, closeLine)}${child}\n${text.slice(closeLine)}`
+}
+
+/**
+ * Applies the AST operations of a patch to a file's contents.
+ * @returns the patched contents, and whether everything was already there
+ * @throws if the element, object or type to patch can't be found
+ */
+export function applyAstPatch(
+  fileName: string,
+  contents: string,
+  patch: AstPatch,
+): { contents: string; alreadyPresent: boolean } {
+  let alreadyPresent = true
+  const apply = (operation: (sf: ts.SourceFile, text: string) => string | undefined) => {
+    const result = operation(parse(fileName, contents), contents)
+    if (result !== undefined) {
+      contents = result
+      alreadyPresent = false
+    }
+  }
+
+  if (patch.addImport) apply((sf, text) => addImport(sf, text, patch.addImport))
+  if (patch.addExport) apply((sf, text) => addExport(sf, text, patch.addExport))
+  if (patch.addProperty) apply((sf, text) => addProperty(sf, text, patch.addProperty))
+  if (patch.addJsxChild) apply((sf, text) => addJsxChild(sf, text, patch.addJsxChild))
+  return { contents, alreadyPresent }
+}
+
+function removeNames(
+  sf: ts.SourceFile,
+  text: string,
+  statement: ts.ImportDeclaration | ts.ExportDeclaration,
+  elements: ts.NodeArray<ts.ImportSpecifier | ts.ExportSpecifier>,
+  names: string[],
+) {
+  const remaining = elements.filter((el) => !names.includes(el.name.text))
+  if (remaining.length === 0) return removeNode(text, statement.getStart(sf), statement.end)
+
+  // remove from the end, so earlier positions stay put
+  let result = text
+  for (let index = elements.length - 1; index >= 0; index--) {
+    if (names.includes(elements[index].name.text)) {
+      result = removeListElement(result, sf, elements, index)
+    }
+  }
+  return result
+}
+
+/** Whether an identifier is used anywhere other than an import */
+function isReferenced(sf: ts.SourceFile, name: string) {
+  const reference = findNode(
+    sf,
+    (node): node is ts.Identifier =>
+      ts.isIdentifier(node) && node.text === name && !ts.isImportSpecifier(node.parent),
+  )
+  return reference !== undefined
+}
+
+/**
+ * Undoes the AST operations of a patch, e.g. for `ignite destroy`.
+ * @throws if something the patch added can't be found
+ */
+export function revertAstPatch(fileName: string, contents: string, patch: AstPatch): string {
+  const notFound = (what: string) => new Error(`Couldn't find ${what} to remove.`)
+  const sf = () => parse(fileName, contents)
+
+  if (patch.addJsxChild) {
+    const source = sf()
+    const element = findJsxElement(source, patch.addJsxChild.to)
+    const child = element?.children.find(
+      (c) => normalize(c.getText(source)) === normalize(patch.addJsxChild.child),
+    )
+    if (!child) throw notFound(patch.addJsxChild.child)
+    contents = removeNode(contents, child.getStart(source), child.end)
+  }
+
+  if (patch.addProperty) {
+    const source = sf()
+    const literal = findLiteral(source, patch.addProperty.to)
+    if (!literal) throw notFound(patch.addProperty.to)
+    const name = propertyName(patch.addProperty.property, literal)
+    const member = literalMembers(literal).find((m) => nameText(m.name) === name)
+    if (!member) throw notFound(`${name} in ${patch.addProperty.to}`)
+    // along with its doc comment
+    const start = member.getStart(source, true)
+    contents = ts.isClassDeclaration(literal)
+      ? removeClassMember(contents, start, member.end)
+      : removeNode(contents, start, member.end)
+  }
+
+  if (patch.addExport) {
+    const source = sf()
+    const spec = patch.addExport
+    const from = typeof spec === "string" ? spec : spec.from
+    const names = typeof spec === "string" ? undefined : spec.names
+    const statement = source.statements
+      .filter(ts.isExportDeclaration)
+      .find((e) => moduleName(e) === from && !e.exportClause === !names)
+    if (!statement) throw notFound(`the export from "${from}"`)
+    if (names) {
+      const elements = (statement.exportClause as ts.NamedExports).elements
+      contents = removeNames(source, contents, statement, elements, names)
+    } else {
+      contents = removeNode(contents, statement.getStart(source), statement.end)
+    }
+  }
+
+  if (patch.addImport) {
+    const source = sf()
+    const { from } = patch.addImport
+    // the file may have imported some of the names already, so keep the ones still in use
+    const names = patch.addImport.names.filter((name) => !isReferenced(source, name))
+    // the names may sit in a separate import when the file already had a type-only one
+    const statement = source.statements.filter(ts.isImportDeclaration).find((i) => {
+      const bindings = moduleName(i) === from && i.importClause?.namedBindings
+      return (
+        bindings &&
+        ts.isNamedImports(bindings) &&
+        bindings.elements.some((e) => patch.addImport.names.includes(e.name.text))
+      )
+    })
+    const bindings = statement?.importClause.namedBindings
+    if (!bindings || !ts.isNamedImports(bindings)) throw notFound(`the import from "${from}"`)
+    contents = removeNames(source, contents, statement, bindings.elements, names)
+  }
+  return contents
+}
+
+export type AstPatchExports = {
+  applyAstPatch: typeof applyAstPatch
+  revertAstPatch: typeof revertAstPatch
+}
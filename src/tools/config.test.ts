@@ -0,0 +1,56 @@
+import { parseConfigFile } from "./config"
+
+describe("config", () => {
+  describe("parseConfigFile", () => {
+    it("should parse JSON config files", () => {
+      const contents = JSON.stringify({
+        bundle: "com.pizzaapp",
+        packager: "npm",
+        removeDemo: true,
+        git: false,
+      })
+
+      expect(parseConfigFile(contents)).toStrictEqual({
+        options: { bundle: "com.pizzaapp", packager: "npm", removeDemo: true, git: false },
+        unknownKeys: [],
+      })
+    })
+
+    it("should parse YAML config files with kebab-case keys", () => {
+      const contents = [
+        "workflow: manual",
+        "state: none",
+        "remove-demo: true",
+        "install-deps: false",
+      ].join("\n")
+
+      expect(parseConfigFile(contents).options).toStrictEqual({
+        workflow: "manual",
+        state: "none",
+        removeDemo: true,
+        installDeps: false,
+      })
+    })
+
+    it("should join a list of experimental features into the CLI format", () => {
+      const contents = JSON.stringify({ experimental: ["new-arch", "expo-router"] })
+
+      expect(parseConfigFile(contents).options).toStrictEqual({
+        experimental: "new-arch,expo-router",
+      })
+    })
+
+    it("should report options that can't be set from a config file", () => {
+      const contents = JSON.stringify({ bundle: "com.pizzaapp", overwrite: true, yes: true })
+
+      expect(parseConfigFile(contents)).toStrictEqual({
+        options: { bundle: "com.pizzaapp" },
+        unknownKeys: ["overwrite", "yes"],
+      })
+    })
+
+    it("should throw when the file isn't an object of options", () => {
+      expect(() => parseConfigFile(`["npm"]`)).toThrow()
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { filesystem, strings } from "gluegun"
+import * as YAML from "yaml"
+import type { Options } from "../commands/new"
+
+export const CONFIG_FILE_NAME = "ignite.config.json"
+
+/**
+ * Options of `ignite new` that can be stored in a project config file.
+ * Everything else (debug, overwrite, yes, etc.) only makes sense per-run.
+ */
+export const configFileKeys = [
+  "bundle",
+  "packager",
+  "workflow",
+  "state",
+  "removeDemo",
+  "experimental",
+  "git",
+  "installDeps",
+  "targetPath",
+] as const
+
+export type ConfigFileKey = (typeof configFileKeys)[number]
+export type ConfigFileOptions = Pick<Options, ConfigFileKey>
+
+/**
+ * Resolves the config file path from a `--config` or `--save-config` flag.
+ * Passing the flag without a value falls back to `ignite.config.json` in `cwd`.
+ */
+export function configFilePath(flag: unknown, cwd: string = process.cwd()): string | undefined {
+  if (flag === undefined || flag === false || flag === "false") return undefined
+  const file = typeof flag === "string" && flag !== "true" ? flag : CONFIG_FILE_NAME
+  return filesystem.path(cwd, file)
+}
+
+/**
+ * Parses the contents of a JSON or YAML config file and returns only the supported options.
+ * Keys may be written in camelCase (`removeDemo`) or kebab-case (`remove-demo`).
+ * @returns the parsed options and any keys we didn't recognize
+ */
+export function parseConfigFile(contents: string): {
+  options: ConfigFileOptions
+  unknownKeys: string[]
+} {
+  // YAML is a superset of JSON, so one parser covers both file types
+  const data = YAML.parse(contents) ?? {}
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Expected the config file to contain an object of options.")
+  }
+
+  const options: ConfigFileOptions = {}
+  const unknownKeys: string[] = []
+
+  Object.keys(data).forEach((key) => {
+    const optionName = strings.camelCase(key) as ConfigFileKey
+    if (configFileKeys.includes(optionName)) {
+      // `experimental` is a comma-separated flag on the CLI, but a list reads better in a file
+      const value = data[key]
+      options[optionName as string] = Array.isArray(value) ? value.join(",") : value
+    } else {
+      unknownKeys.push(key)
+    }
+  })
+
+  return { options, unknownKeys }
+}
+
+/**
+ * Reads a project config file from disk.
+ */
+export function readConfigFile(path: string) {
+  if (filesystem.exists(path) !== "file") {
+    throw new Error(`Config file not found at ${path}`)
+  }
+  return parseConfigFile(filesystem.read(path))
+}
+
+/**
+ * Writes the resolved options back out so they can be checked in and reused with `--config`.
+ * YAML is written for `.yml`/`.yaml` paths, JSON otherwise.
+ */
+export function writeConfigFile(path: string, options: ConfigFileOptions) {
+  const data: Record<string, unknown> = {}
+  configFileKeys.forEach((key) => {
+    if (options[key] !== undefined) data[key] = options[key]
+  })
+
+  const isYaml = /\.ya?ml$/.test(path)
+  filesystem.write(path, isYaml ? YAML.stringify(data) : JSON.stringify(data, null, 2) + "\n")
+}
@@ -1,4 +1,5 @@
 import { filesystem } from "gluegun"
+import { dependencyJsonPaths, formatJson, removeJsonPaths } from "./json-markup"
 
 // This function takes a package.json file as a string and removes the dependencies
 // supplied in dependenciesToRemove and returns the updated package.json as a string.
@@ -6,14 +7,9 @@ export function findAndRemoveDependencies(
   packageJsonRaw: string,
   dependenciesToRemove: string[],
 ): string {
-  let updatedPackageJson = packageJsonRaw
-
-  dependenciesToRemove.forEach((depName) => {
-    const regex = new RegExp(`"${depName}"\\s*:\\s*"[^"]+",?`, "g")
-    updatedPackageJson = updatedPackageJson.replace(regex, "")
-  })
-
-  return updatedPackageJson
+  const packageJson = JSON.parse(packageJsonRaw)
+  removeJsonPaths(packageJson, dependencyJsonPaths(dependenciesToRemove))
+  return formatJson(packageJson, packageJsonRaw)
 }
 
 export function removePackageJSONDependencies(
@@ -46,3 +42,7 @@ export function findAndUpdateDependencyVersions(
 export const newArchCompatExpectedVersions = {
   "react-native-mmkv": "3.0.1",
 }
+
+export const expoRouterDependencies = {
+  "expo-router": "~3.5.17",
+}
@@ -0,0 +1,92 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import {
+  parseExpoRouterRoute,
+  removeEmptyExpoRouterFolders,
+  writeExpoRouterLayouts,
+} from "./expo-router"
+
+describe("expo-router", () => {
+  describe("parseExpoRouterRoute", () => {
+    // an empty project, so every folder is new
+    const tempPath = useTempDir()
+    let projectPath: string
+
+    beforeEach(() => {
+      projectPath = tempPath()
+    })
+
+    it("should put top-level routes in src/app", () => {
+      expect(parseExpoRouterRoute("settings", { projectPath })).toEqual({
+        dir: "src/app",
+        fileName: "settings",
+        componentName: "Settings",
+        params: [],
+        layoutDirs: [],
+      })
+    })
+
+    it("should type dynamic and catch-all segments", () => {
+      const route = parseExpoRouterRoute("posts/[id]/[...rest]", { projectPath })
+
+      expect(route.dir).toBe("src/app/posts/[id]")
+      expect(route.fileName).toBe("[...rest]")
+      expect(route.componentName).toBe("PostsIdRest")
+      expect(route.params).toEqual([
+        { name: "id", catchAll: false },
+        { name: "rest", catchAll: true },
+      ])
+    })
+
+    it("should add layouts for new groups, and the route's folder when asked", () => {
+      expect(parseExpoRouterRoute("(tabs)/home", { projectPath }).layoutDirs).toEqual([
+        "src/app/(tabs)",
+      ])
+      expect(
+        parseExpoRouterRoute("(tabs)/settings/profile", { projectPath, layout: true }).layoutDirs,
+      ).toEqual(["src/app/(tabs)", "src/app/(tabs)/settings"])
+    })
+
+    it("should put routes under --dir, which has to be in src/app", () => {
+      const route = parseExpoRouterRoute("log-in", { dir: "src/app/(app)/(tabs)/", projectPath })
+
+      expect(route.dir).toBe("src/app/(app)/(tabs)")
+      expect(route.fileName).toBe("log-in")
+      expect(route.componentName).toBe("LogIn")
+      expect(route.layoutDirs).toEqual(["src/app/(app)", "src/app/(app)/(tabs)"])
+      expect(parseExpoRouterRoute("[id]", { dir: "./src/app/podcasts", projectPath }).dir).toBe(
+        "src/app/podcasts",
+      )
+      expect(() => parseExpoRouterRoute("log-in", { dir: "src/screens", projectPath })).toThrow(
+        `--dir has to be in it; got "src/screens"`,
+      )
+      expect(() => parseExpoRouterRoute("log-in", { dir: "src/application", projectPath })).toThrow(
+        "--dir has to be in it",
+      )
+    })
+
+    it("should reject routes that end in a group or have invalid segments", () => {
+      expect(() => parseExpoRouterRoute("(tabs)", { projectPath })).toThrow("can't end in a group")
+      expect(() => parseExpoRouterRoute("posts/[bad id]", { projectPath })).toThrow(
+        "isn't a valid route segment",
+      )
+    })
+  })
+
+  describe("removeEmptyExpoRouterFolders", () => {
+    const tempPath = useTempDir()
+
+    it("should remove folders left with only their generated layout", () => {
+      const projectPath = tempPath()
+      writeExpoRouterLayouts(["src/app/(tabs)", "src/app/(tabs)/settings"], projectPath)
+      filesystem.write(filesystem.path(projectPath, "src/app/(tabs)/home.tsx"), "")
+
+      expect(removeEmptyExpoRouterFolders("src/app/(tabs)/settings", projectPath)).toEqual([
+        filesystem.path(projectPath, "src/app/(tabs)/settings"),
+      ])
+      expect(filesystem.exists(filesystem.path(projectPath, "src/app/(tabs)/_layout.tsx"))).toBe(
+        "file",
+      )
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { filesystem, strings } from "gluegun"
+import * as pathlib from "path"
+
+/** Expo Router's file-based routes live here, relative to the project root */
+export const EXPO_ROUTER_ROUTES_DIR = "src/app"
+
+export type ExpoRouterRouteParam = {
+  name: string
+  /** `[...slug]` segments match the rest of the path, so they're an array */
+  catchAll: boolean
+}
+
+export type ExpoRouterRoute = {
+  /** folder the route file goes in, relative to the project root, e.g. `src/app/(tabs)/posts` */
+  dir: string
+  /** route file name without the extension, e.g. `[id]` */
+  fileName: string
+  /** used to name the screen component, e.g. `PostsId` for `posts/[id]` */
+  componentName: string
+  /** dynamic segments anywhere in the route, for typing `useLocalSearchParams` */
+  params: ExpoRouterRouteParam[]
+  /** folders (relative to the project root) that need a `_layout.tsx` */
+  layoutDirs: string[]
+}
+
+const isGroup = (segment: string) => /^\(.+\)$/.test(segment)
+const dynamicSegment = /^\[(\.\.\.)?([A-Za-z_$][\w$]*)\]$/
+const staticSegment = /^[\w.-]+$/
+
+/**
+ * Works out where `ignite g screen <route>` puts a route in an Expo Router project.
+ * Routes are paths under `src/app`, e.g. `settings`, `(tabs)/home` or `posts/[id]`, or under
+ * `dir` (`--dir`) when it's passed, which has to be `src/app` or a folder in it.
+ * New `(group)` folders always get a `_layout.tsx`; with `layout`, so does the route's own folder.
+ */
+export function parseExpoRouterRoute(
+  route: string,
+  options: { dir?: string; layout?: boolean; projectPath?: string } = {},
+): ExpoRouterRoute {
+  const { projectPath = process.cwd() } = options
+  const segments = route.split("/").filter((segment) => segment !== "")
+
+  if (options.dir !== undefined) {
+    const dirSegments = pathlib.posix
+      .normalize(options.dir)
+      .split("/")
+      .filter((segment) => segment !== "" && segment !== ".")
+    const routesDirSegments = EXPO_ROUTER_ROUTES_DIR.split("/")
+    if (routesDirSegments.some((segment, index) => dirSegments[index] !== segment)) {
+      throw new Error(
+        `Routes go in ${EXPO_ROUTER_ROUTES_DIR}, so --dir has to be in it; got "${options.dir}".`,
+      )
+    }
+    segments.unshift(...dirSegments.slice(routesDirSegments.length))
+  }
+
+  if (segments.length === 0) throw new Error(`"${route}" isn't a valid route.`)
+  segments.forEach((segment) => {
+    const group = isGroup(segment) && staticSegment.test(segment.slice(1, -1))
+    if (!group && !dynamicSegment.test(segment) && !staticSegment.test(segment)) {
+      throw new Error(`"${segment}" isn't a valid route segment in "${route}".`)
+    }
+  })
+
+  const fileName = segments[segments.length - 1]
+  if (isGroup(fileName)) {
+    throw new Error(`Routes can't end in a group; try "${route}/index" instead.`)
+  }
+
+  const params = segments
+    .map((segment) => dynamicSegment.exec(segment))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, catchAll, name]) => ({ name, catchAll: catchAll !== undefined }))
+
+  const nameParts = segments
+    .filter((segment) => !isGroup(segment))
+    .map((segment) => segment.replace(dynamicSegment, "$2"))
+  const componentName = strings.pascalCase(nameParts.join(" "))
+
+  const folders = segments.slice(0, -1)
+  const dir = [EXPO_ROUTER_ROUTES_DIR, ...folders].join("/")
+  const needsLayout = (folder: string) =>
+    filesystem.exists(filesystem.path(projectPath, folder, "_layout.tsx")) !== "file"
+
+  const layoutDirs = folders
+    .map((segment, index) => ({
+      segment,
+      folder: [EXPO_ROUTER_ROUTES_DIR, ...folders.slice(0, index + 1)].join("/"),
+    }))
+    .filter(({ segment, folder }) => {
+      const isNewGroup =
+        isGroup(segment) && filesystem.exists(filesystem.path(projectPath, folder)) !== "dir"
+      return isNewGroup || (options.layout && folder === dir)
+    })
+    .map(({ folder }) => folder)
+    .filter(needsLayout)
+
+  return { dir, fileName, componentName, params, layoutDirs }
+}
+
+const LAYOUT_TPL = `import { Stack } from "expo-router"
+
+export default function Layout() {
+  return <Stack screenOptions={{ headerShown: false }} />
+}
+`
+
+/**
+ * Writes a basic Stack `_layout.tsx` to each folder that doesn't already have one.
+ * @returns the paths written
+ */
+export function writeExpoRouterLayouts(
+  layoutDirs: string[],
+  projectPath: string = process.cwd(),
+): string[] {
+  return layoutDirs
+    .map((folder) => filesystem.path(projectPath, folder, "_layout.tsx"))
+    .filter((layoutPath) => filesystem.exists(layoutPath) !== "file")
+    .map((layoutPath) => {
+      filesystem.write(layoutPath, LAYOUT_TPL)
+      return layoutPath
+    })
+}
+
+/**
+ * Undoes `writeExpoRouterLayouts` after a route is destroyed: walks up from the route's folder,
+ * removing folders that are empty or only hold an untouched generated `_layout.tsx`.
+ * @returns the folders removed
+ */
+export function removeEmptyExpoRouterFolders(
+  dir: string,
+  projectPath: string = process.cwd(),
+): string[] {
+  const removed: string[] = []
+  const folders = dir.split("/").slice(EXPO_ROUTER_ROUTES_DIR.split("/").length)
+
+  while (folders.length > 0) {
+    const folderPath = filesystem.path(projectPath, EXPO_ROUTER_ROUTES_DIR, ...folders)
+    const layoutPath = filesystem.path(folderPath, "_layout.tsx")
+    const contents = filesystem.list(folderPath) ?? []
+    const onlyGeneratedLayout =
+      contents.length === 1 &&
+      contents[0] === "_layout.tsx" &&
+      filesystem.read(layoutPath) === LAYOUT_TPL
+    if (contents.length > 0 && !onlyGeneratedLayout) break
+
+    filesystem.remove(folderPath)
+    removed.push(folderPath)
+    folders.pop()
+  }
+  return removed
+}
@@ -0,0 +1,37 @@
+import { resolveFeature } from "./features"
+
+describe("features", () => {
+  it("should resolve built-in features, with or without the @", () => {
+    expect(resolveFeature("@mst")).toEqual({
+      description: "MobX-State-Tree",
+      dependencies: ["mobx", "mobx-react-lite", "mobx-state-tree", "reactotron-mst"],
+      igniteConfig: { state: "none" },
+      name: "mst",
+      markupPrefix: "@mst",
+      declared: true,
+    })
+    expect(resolveFeature("demo").directories).toEqual(["**/demo"])
+  })
+
+  it("should take settings from ignite/features.json", () => {
+    const features = {
+      analytics: { dependencies: ["@segment/analytics-react-native"], patches: ["@segment*"] },
+      demo: { dependencies: [] },
+    }
+
+    expect(resolveFeature("analytics", features)).toEqual({
+      dependencies: ["@segment/analytics-react-native"],
+      patches: ["@segment*"],
+      name: "analytics",
+      markupPrefix: "@analytics",
+      declared: true,
+    })
+    expect(resolveFeature("demo", features).dependencies).toEqual([])
+    expect(resolveFeature("demo", features).directories).toEqual(["**/demo"])
+    expect(resolveFeature("payments").declared).toBe(false)
+  })
+
+  it("should reject names that can't be markup prefixes", () => {
+    expect(() => resolveFeature("my feature")).toThrow(`"my feature" isn't a valid feature name.`)
+  })
+})
@@ -0,0 +1,264 @@
+import { filesystem, GluegunToolbox } from "gluegun"
+import * as pathlib from "path"
+import { demoDependenciesToRemove, DEMO_MARKUP_PREFIX } from "./demo"
+import { boolFlag } from "./flag"
+import { dependencyJsonPaths, JSON_MARKUP_FILE, updateJsonFiles } from "./json-markup"
+import { findFiles, removeEmptyDirs, summarizeUpdateResults, updateFiles } from "./markup"
+import { MST_MARKUP_PREFIX, mstDependenciesToRemove } from "./mst"
+import { packager } from "./packager"
+import { jsonOutput, p, warning } from "./pretty"
+import { IgniteProjectConfig, readIgniteConfig, updateIgniteConfig } from "./project"
+
+export const FEATURES_FILE = "ignite/features.json"
+
+/**
+ * An optional part of the app, marked in code with `// @<name> ...` comments and removed with
+ * `ignite remove-feature <name>`. Everything besides the markup is declared in ignite/features.json.
+ */
+export type Feature = {
+  /** how the feature is described in messages, e.g. "MobX-State-Tree" */
+  description?: string
+  /** packages removed from package.json along with the code */
+  dependencies?: string[]
+  /** globs of patch-package patches in ./patches to remove, e.g. "analytics-*.patch" */
+  patches?: string[]
+  /** globs of folders to remove, e.g. "app/screens/analytics" */
+  directories?: string[]
+  /** recorded in app.json's `ignite` key once the code is gone; only used by built-in features */
+  igniteConfig?: IgniteProjectConfig
+}
+
+const MATCHING_GLOBS = [
+  "!**/.DS_Store",
+  "!**/.expo{,/**}",
+  "!**/.git{,/**}",
+  "!**/.vscode{,/**}",
+  "!**/node_modules{,/**}",
+  "!**/ios/build{,/**}",
+  "!**/ios/Pods{,/**}",
+  "!**/ios/*.xcworkspace{,/**}",
+  "!**/ios/*.xcodeproj{,/**}",
+  "!**/android/build{,/**}",
+  "!**/android/app/build{,/**}",
+  "!**/android/.gradle",
+]
+
+// the features the boilerplate ships with; ignite/features.json can add to these
+export const builtInFeatures: Record<string, Feature> = {
+  [DEMO_MARKUP_PREFIX.slice(1)]: {
+    description: "demo",
+    dependencies: demoDependenciesToRemove,
+    patches: demoDependenciesToRemove.map((dep) => `${dep}*.patch`),
+    directories: ["**/demo"],
+    igniteConfig: { removeDemo: true },
+  },
+  [MST_MARKUP_PREFIX.slice(1)]: {
+    description: "MobX-State-Tree",
+    dependencies: mstDependenciesToRemove,
+    igniteConfig: { state: "none" },
+  },
+}
+
+/**
+ * Reads ignite/features.json from the project.
+ * @returns an empty object if the project doesn't have one
+ */
+export function readFeatures(projectPath: string = process.cwd()): Record<string, Feature> {
+  const path = filesystem.path(projectPath, FEATURES_FILE)
+  if (filesystem.exists(path) !== "file") return {}
+
+  let data: unknown
+  try {
+    data = JSON.parse(filesystem.read(path))
+  } catch (e) {
+    throw new Error(`Couldn't parse ${FEATURES_FILE}. ${e.message}`)
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Expected ${FEATURES_FILE} to contain an object of features.`)
+  }
+  return data as Record<string, Feature>
+}
+
+/**
+ * Works out the markup prefix and settings for a feature name, with or without its `@`.
+ * Settings from ignite/features.json override the built-in ones.
+ * @returns `declared: false` when neither lists the feature, so there's only its markup to go on
+ */
+export function resolveFeature(
+  name: string,
+  features: Record<string, Feature> = {},
+): Feature & { name: string; markupPrefix: string; declared: boolean } {
+  const featureName = name.replace(/^@/, "")
+  if (!/^[\w-]+$/.test(featureName)) {
+    throw new Error(`"${name}" isn't a valid feature name. Use letters, numbers, - and _.`)
+  }
+
+  return {
+    ...builtInFeatures[featureName],
+    ...features[featureName],
+    name: featureName,
+    markupPrefix: `@${featureName}`,
+    declared: !!(builtInFeatures[featureName] || features[featureName]),
+  }
+}
+
+/**
+ * Finds the folders a feature's `directories` globs match in a project.
+ */
+export function findFeatureDirectories(feature: Feature, targetDir: string): string[] {
+  if (!feature.directories?.length) return []
+  return filesystem
+    .cwd(targetDir)
+    .find({
+      matching: [...MATCHING_GLOBS, ...feature.directories],
+      recursive: true,
+      files: false,
+      directories: true,
+    })
+    .map((path) => pathlib.join(targetDir, path))
+}
+
+/**
+ * Runs `remove-feature` for a feature, and the older commands that remove one feature each.
+ * Removes the marked code, files, folders, patches and dependencies, or with `markupOnly`
+ * just the markup comments, leaving the code in place.
+ */
+export async function removeFeature(
+  toolbox: GluegunToolbox,
+  options: { name: string; targetDir?: string; markupOnly?: boolean; command: string },
+) {
+  const { parameters } = toolbox
+
+  const TARGET_DIR = options.targetDir ?? process.cwd()
+  const dryRun = boolFlag(parameters.options.dryRun) ?? false
+  const markupOnly = options.markupOnly ?? false
+  jsonOutput.start(options.command, parameters.options)
+
+  let feature: ReturnType<typeof resolveFeature>
+  try {
+    feature = resolveFeature(options.name, readFeatures(TARGET_DIR))
+  } catch (e) {
+    warning(e.message)
+    jsonOutput.error(e.message)
+    process.exitCode = 1
+    return
+  }
+  const description = feature.description ?? feature.markupPrefix
+  const dryRunNote = dryRun ? " (dry run)" : ""
+  const removing = `${description} ${markupOnly ? "markup" : "code"} from '${TARGET_DIR}'`
+
+  p()
+  p(`Removing ${removing}${dryRunNote}`)
+
+  const filePaths = findFiles(TARGET_DIR).filter(
+    (path) => path !== pathlib.join(TARGET_DIR, JSON_MARKUP_FILE),
+  )
+
+  // dependencies only go when the code goes
+  const dependencies = markupOnly ? [] : (feature.dependencies ?? [])
+
+  // Go through every file path and handle the operation for each comment
+  const fileResults = await updateFiles({
+    filePaths,
+    markupPrefix: feature.markupPrefix,
+    removeMarkupOnly: markupOnly,
+    dryRun,
+  })
+
+  // then the JSON files, which ignite/markup.json marks up instead
+  let jsonResults: Awaited<ReturnType<typeof updateJsonFiles>> = []
+  try {
+    jsonResults = await updateJsonFiles({
+      targetDir: TARGET_DIR,
+      markupPrefix: feature.markupPrefix,
+      jsonPaths: { "package.json": dependencyJsonPaths(dependencies) },
+      removeMarkupOnly: markupOnly,
+      dryRun,
+    })
+  } catch (e) {
+    jsonResults = [{ status: "rejected", reason: e }]
+  }
+  const commentResults = [...fileResults, ...jsonResults]
+
+  // Handle the results of the comment operations
+  commentResults
+    // Sort the results by the path in alphabetical order
+    .sort((a, b) => {
+      if (a.status === "fulfilled" && b.status === "fulfilled") {
+        return a.value.path.localeCompare(b.value.path)
+      }
+      return 0
+    })
+    .forEach((result) => {
+      // Log any rejected results as warnings
+      if (result.status === "rejected") {
+        warning(result.reason)
+        return
+      }
+
+      // Log any fulfilled results that have comments
+      const { path, comments } = result.value
+      if (comments.length > 0) {
+        p(`Found ${comments.map((c) => `'${c}'`).join(", ")} in ${path}`)
+      }
+    })
+
+  const { files, errors } = summarizeUpdateResults(commentResults)
+  errors.forEach((error) => jsonOutput.error(error))
+  if (errors.length > 0) process.exitCode = 1
+  jsonOutput.result({
+    targetDir: TARGET_DIR,
+    feature: feature.name,
+    markupOnly,
+    dryRun,
+    removedDependencies: dependencies,
+    files,
+  })
+
+  if (files.length === 0 && !feature.declared) {
+    warning(`No ${feature.markupPrefix} markup found, and ${FEATURES_FILE} doesn't list it.`)
+  }
+
+  if (markupOnly) {
+    p(`Done removing ${removing}${dryRunNote}`)
+    return
+  }
+
+  // first pass
+  const emptyDirsRemoved = removeEmptyDirs({ targetDir: TARGET_DIR, dryRun })
+  emptyDirsRemoved.forEach((path) => {
+    p(`Removed empty directory '${path}'`)
+  })
+
+  const featureDirs = findFeatureDirectories(feature, TARGET_DIR)
+  featureDirs.forEach((path) => {
+    if (!dryRun) filesystem.remove(path)
+    p(`Removed ${description} directory '${path}'`)
+  })
+
+  const patchesDir = pathlib.join(TARGET_DIR, "patches")
+  const patches: string[] = []
+  if (feature.patches?.length && filesystem.exists(patchesDir) === "dir") {
+    filesystem
+      .cwd(patchesDir)
+      .find({ matching: feature.patches })
+      .forEach((path) => patches.push(pathlib.join(patchesDir, path)))
+  }
+  patches.forEach((path) => {
+    if (!dryRun) filesystem.remove(path)
+    p(`Removed patch '${path}'`)
+  })
+  jsonOutput.result({ removedDirs: [...emptyDirsRemoved, ...featureDirs], removedPatches: patches })
+
+  if (!dryRun) {
+    if (feature.igniteConfig) updateIgniteConfig(feature.igniteConfig, TARGET_DIR)
+    // dependencies came out of package.json; suggest the packager the project was created with
+    const { packager: packagerName } = readIgniteConfig(TARGET_DIR)
+    const packageJSONPath = pathlib.join(TARGET_DIR, "package.json")
+    if (files.some(({ path }) => path === packageJSONPath) && packagerName) {
+      p(`Run \`${packager.installCmd({ packagerName })}\` to update node_modules`)
+    }
+  }
+
+  p(`Done removing ${removing}${dryRunNote}`)
+}
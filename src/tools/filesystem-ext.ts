@@ -1,3 +1,4 @@
+import { spawnSync } from "child_process"
 import { filesystem } from "gluegun"
 import * as pathlib from "path"
 
@@ -21,3 +22,33 @@ export function children(path: string, isRelative = false, matching = "*"): stri
     return dirs.map((dir) => pathlib.join(path, dir))
   }
 }
+
+/**
+ * `git diff` between two versions of a file, with the header pointing at `path` rather than
+ * the files compared. Binary files only get git's "Binary files ... differ" line, unless `binary`
+ * asks for a patch `git apply` can use. If git can't be run, says so instead.
+ */
+export function diffFiles(
+  path: string,
+  from: string,
+  to: string,
+  options: { binary?: boolean } = {},
+) {
+  const binaryFlag = options.binary ? ["--binary"] : []
+  const result = spawnSync("git", ["diff", "--no-index", ...binaryFlag, from, to], {
+    encoding: "utf8",
+  })
+  if (result.error) {
+    return `Couldn't show the changes to ${path}; git didn't run (${result.error.message}).`
+  }
+  return result.stdout
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("diff --git ")) return `diff --git a/${path} b/${path}`
+      if (line.startsWith("--- a/")) return `--- a/${path}`
+      if (line.startsWith("+++ b/")) return `+++ b/${path}`
+      if (line.startsWith("Binary files ")) return `Binary files a/${path} and b/${path} differ`
+      return line
+    })
+    .join("\n")
+}
@@ -1,13 +1,46 @@
 import * as ejs from "ejs"
+import * as os from "os"
 import { filesystem, GluegunToolbox, GluegunPatchingPatchOptions, patching, strings } from "gluegun"
 import { Options } from "gluegun/build/types/domain/options"
 import * as sharp from "sharp"
 import * as YAML from "yaml"
-import { command, direction, heading, igniteHeading, link, p, warning } from "./pretty"
+import type { AstPatch, AstPatchExports } from "./ast-patch"
+import type { ExpoRouterRouteParam } from "./expo-router"
+import { diffFiles } from "./filesystem-ext"
+import { bool, boolFlag } from "./flag"
+import {
+  findStaleGeneratorRuns,
+  GENERATED_MANIFEST_PATH,
+  recordGeneratorRun,
+  removeGeneratorRun,
+  templateChecksum,
+  TEMPLATE_FILES,
+} from "./manifest"
+import { parseRecipe, Recipe, RECIPE_FILE_NAME } from "./recipes"
+import {
+  FetchedTemplatePack,
+  fetchTemplatePack,
+  readTemplateLock,
+  recordTemplatePack,
+} from "./template-packs"
+import { parseTemplatePrompts, TemplatePrompt, TemplatePropValue } from "./template-prompts"
+import { appDirName } from "./project"
+import {
+  command,
+  direction,
+  heading,
+  igniteHeading,
+  jsonOutput,
+  link,
+  p,
+  prefix,
+  prettyPrompt,
+  warning,
+} from "./pretty"
 
 const NEW_LINE = filesystem.eol
 
-export function runGenerator(
+export async function runGenerator(
   toolbox: GluegunToolbox,
   generateFunc: (toolbox: GluegunToolbox) => Promise<void>,
   generator?: string,
@@ -20,7 +53,7 @@ export function runGenerator(
     showGeneratorHelp(toolbox)
   } else if (parameters.options.update) {
     // update with fresh generators
-    updateGenerators(toolbox)
+    await updateGenerators(toolbox)
   } else {
     if (generator) {
       const isValid = validateGenerator(generator)
@@ -31,7 +64,7 @@ export function runGenerator(
       return
     }
 
-    generateFunc(toolbox)
+    await generateFunc(toolbox)
   }
 }
 
@@ -40,6 +73,7 @@ function validateGenerator(generator?: string) {
 
   if (!generators.includes(generator)) {
     warning(`⚠️  Generator "${generator}" isn't installed.`)
+    jsonOutput.error(`Generator "${generator}" isn't installed.`)
     p()
 
     if (availableGenerators().includes(generator)) {
@@ -79,7 +113,18 @@ export function showGeneratorHelp(toolbox: GluegunToolbox) {
       `npx ignite-cli update --all`,
     ],
   )
-  warning("          ⚠️  this erases any customizations you've made!")
+  p("          Shows a diff and asks before replacing templates you've changed.")
+  command("--yes / --keep-mine", "Replace changed templates, or keep yours, without asking", [
+    "npx ignite-cli update --all --yes",
+    "npx ignite-cli update model --keep-mine",
+  ])
+  command("--backup", "Save the templates you replace as <file>.orig", [
+    "npx ignite-cli update --all --yes --backup",
+  ])
+  command("--from  ", "Install generators from a template pack folder, git repo or npm package", [
+    "npx ignite-cli --update --from ../our-ignite-templates",
+    "npx ignite-cli update component --from @acme/ignite-templates",
+  ])
   p()
   heading("Options")
   p()
@@ -106,6 +151,7 @@ function showGenerators() {
   }
 
   const generators = installedGenerators()
+  jsonOutput.result({ generators })
   const longestGen = generators.reduce((c, g) => Math.max(c, g.length), 0)
   generators.forEach((g) => {
     if (g === "app-icon") {
@@ -125,35 +171,157 @@ function showGenerators() {
   })
 }
 
-export function updateGenerators(toolbox: GluegunToolbox) {
-  const { parameters } = toolbox
+export async function updateGenerators(toolbox: GluegunToolbox) {
+  const { parameters, prompt } = toolbox
+  const from: string | undefined = parameters.options.from
+  const yes = boolFlag(parameters.options.yes) ?? false
+  const keepMine = boolFlag(parameters.options.keepMine) ?? false
 
   if (!isIgniteProject()) {
     warning("⚠️  Not in an Ignite project root. Go to your Ignite project root to see generators.")
+    jsonOutput.error("Not in an Ignite project root.")
     return
   }
 
-  let generatorsToUpdate
-  if (parameters.first) {
-    // only update the specified one
-    generatorsToUpdate = [parameters.first]
-  } else {
-    // update any available generators
-    generatorsToUpdate = availableGenerators()
+  if (yes && keepMine) {
+    warning("⚠️  Pass either --yes or --keep-mine, not both.")
+    jsonOutput.error("Pass either --yes or --keep-mine, not both.")
+    return
   }
 
-  const changes = installGenerators(generatorsToUpdate)
+  // asked for each template file that's about to lose local changes
+  const confirmOverwrite = async (relativePath: string) => {
+    if (yes || keepMine || jsonOutput.isEnabled()) return yes
+    const response = await prompt.ask<{ overwrite: boolean }>(() => ({
+      type: "confirm",
+      name: "overwrite",
+      message: `Replace ${relativePath} with the new template?`,
+      initial: false,
+      format: prettyPrompt.format.boolean,
+      prefix,
+    }))
+    return response.overwrite
+  }
+  const installOptions = { confirmOverwrite, backup: boolFlag(parameters.options.backup) }
+
+  // generators installed from a template pack update from the same place, unless --from says
+  // otherwise; the rest come from Ignite's own templates
+  const lock = readTemplateLock()
+  const sources: Record<string, string[]> = {}
+  const packs: Record<string, FetchedTemplatePack> = {}
+  let generatorsToUpdate: string[]
+  const result: InstallResult = { changed: [], kept: [], backups: [] }
+  const tempPath = filesystem.path(os.tmpdir(), `ignite-templates-${Date.now()}`)
+  const fetchPack = async (source: string) => {
+    const fetchPath = filesystem.path(tempPath, `${Object.keys(packs).length}`)
+    packs[source] = packs[source] ?? (await fetchTemplatePack(source, fetchPath))
+    return packs[source]
+  }
+  try {
+    if (from) {
+      const pack = await fetchPack(from)
+      const packGenerators = filesystem
+        .subdirectories(pack.templatesDir)
+        .map((g) => g.split(filesystem.separator).slice(-1)[0])
+      // only update the specified one, or all of them
+      generatorsToUpdate = parameters.first ? [parameters.first] : packGenerators
+      const missing = generatorsToUpdate.filter((g) => !packGenerators.includes(g))
+      if (missing.length > 0) throw new Error(`${from} doesn't have a ${missing[0]} generator.`)
+      sources[from] = generatorsToUpdate
+    } else {
+      // only update the specified one, or any available generators
+      generatorsToUpdate = [parameters.first]
+      if (!parameters.first) {
+        generatorsToUpdate = availableGenerators()
+          .concat(Object.keys(lock.generators))
+          .filter((g, index, self) => self.indexOf(g) === index)
+      }
+      generatorsToUpdate.forEach((g) => {
+        const source = lock.generators[g]?.source ?? ""
+        sources[source] = (sources[source] ?? []).concat(g)
+      })
+    }
+
+    // templates that match what a pack installed can't have local changes, so they're
+    // updated without asking; everything else might have been customized
+    const customized = (g: string) => {
+      const installed = lock.generators[g]?.checksum
+      return !installed || installed !== templateChecksum(filesystem.path(templatesDir(), g))
+    }
+
+    for (const source of Object.keys(sources)) {
+      const generators = sources[source]
+      const pack = source ? await fetchPack(source) : undefined
+      const installed = await installGenerators(generators, pack?.templatesDir, {
+        ...installOptions,
+        customized: generators.filter(customized),
+      })
+      Object.keys(result).forEach((key) => result[key].push(...installed[key]))
+      if (!pack) continue
+
+      // what the pack installed, so local changes show up as a different checksum
+      const checksums: Record<string, string> = {}
+      generators.forEach((g) => {
+        checksums[g] = templateChecksum(filesystem.path(pack.templatesDir, g)) ?? ""
+      })
+      recordTemplatePack({ source, type: pack.type, version: pack.version }, checksums)
+    }
+  } catch (e) {
+    warning(`⚠️  Couldn't install templates: ${e.message ?? e}`)
+    jsonOutput.error(`Couldn't install templates: ${e.message ?? e}`)
+    return
+  } finally {
+    filesystem.remove(tempPath)
+  }
+
+  const { changed: changes, kept, backups } = result
   const distinct = (val, index, self) => self.indexOf(val) === index
   const allGenerators = changes.concat(generatorsToUpdate).filter(distinct).sort()
 
+  // generated files made from templates that have since changed
+  const stale = findStaleGeneratorRuns(templatesDir())
+
+  jsonOutput.result({
+    updated: changes,
+    unchanged: allGenerators.filter((g) => !changes.includes(g)),
+    kept,
+    backups,
+    stale,
+    from: readTemplateLock().generators,
+  })
+
   heading(`Updated ${changes.length} generator${changes.length === 1 ? "" : "s"}`)
   allGenerators.forEach((g) => {
+    const source = Object.keys(sources).find((s) => s && sources[s].includes(g))
+    const fromSource = source ? ` from ${source}` : ""
     if (changes.includes(g)) {
-      heading(`  ${g} - updated`)
+      heading(`  ${g} - updated${fromSource}`)
     } else {
-      p(`  ${g} - no changes`)
+      p(`  ${g} - no changes${fromSource}`)
     }
   })
+
+  if (kept.length > 0) {
+    p()
+    heading(`Kept your version of:`)
+    kept.forEach((f) => p(`  ${f}`))
+    p()
+    heading("To take the new templates instead, run the command again with the `--yes` flag")
+  }
+
+  if (backups.length > 0) {
+    p()
+    heading(`Saved your old versions as:`)
+    backups.forEach((f) => p(`  ${f}`))
+  }
+
+  if (stale.length > 0) {
+    p()
+    heading(`Generated with an older template (see ${GENERATED_MANIFEST_PATH}):`)
+    stale.forEach((run) => {
+      run.written.forEach((f) => p(`  ${f} (${run.generator} ${run.name})`))
+    })
+  }
 }
 
 function isIgniteProject(): boolean {
@@ -169,7 +337,8 @@ function igniteDir() {
 }
 
 function appDir() {
-  return filesystem.path(cwd(), "app")
+  // expo-router projects moved app code to src/
+  return filesystem.path(cwd(), appDirName(cwd()))
 }
 
 function templatesDir() {
@@ -180,7 +349,7 @@ function frontMatter(contents: string) {
   const parts = contents.split(`---${NEW_LINE}`)
   if (parts.length === 1 || parts.length === 3) {
     return {
-      data: parts[1] ? YAML.parse(parts[1]) : {},
+      data: (parts[1] ? YAML.parse(parts[1]) : {}) as FrontMatter,
       content: parts[2] ?? parts[0],
     }
   } else {
@@ -191,41 +360,203 @@ function frontMatter(contents: string) {
 /**
  * Patch front matter configuration
  */
-type Patch = GluegunPatchingPatchOptions & {
+type Patch = GluegunPatchingPatchOptions &
+  AstPatch & {
+    path: string
+    append?: string
+    prepend?: string
+    replace?: string
+    skip?: boolean
+  }
+
+/**
+ * Template front matter configuration
+ */
+type FrontMatter = {
+  destinationDir?: string
+  filename?: string
+  /** rendered by ejs, e.g. `skip: <%= !props.withTest %>`, so read with `bool` */
+  skip?: boolean | string
+  /** read before rendering, by `templatePrompts` */
+  prompts?: unknown
+  patches?: Patch[]
+  patch?: Patch
+}
+
+function isAstPatch(patch: AstPatch) {
+  return Boolean(patch.addExport || patch.addImport || patch.addProperty || patch.addJsxChild)
+}
+
+export type PatchStatus =
+  | "applied"
+  | "skipped"
+  | "target missing"
+  | "anchor missing"
+  | "already present"
+
+/** What happened to one of a template's front matter patches */
+export type PatchResult = {
   path: string
-  append?: string
-  prepend?: string
-  replace?: string
-  skip?: boolean
+  status: PatchStatus
+  /** why an AST patch couldn't find its target */
+  message?: string
+}
+
+/** Patch results that mean the patch should have applied, but couldn't */
+export const failedPatchStatuses: PatchStatus[] = ["target missing", "anchor missing"]
+
+/**
+ * Applies one front matter patch, checking first whether its anchors are in the file and
+ * whether what it adds is already there.
+ */
+async function applyPatch(patch: Patch): Promise<PatchResult> {
+  const { path: patchPath, skip, ...patchOpts } = patch
+  if (skip) return { path: patchPath, status: "skipped" }
+
+  let contents = filesystem.read(patchPath)
+  if (contents === undefined) return { path: patchPath, status: "target missing" }
+  const includes = (pattern: string | RegExp) =>
+    typeof pattern === "string" ? contents.includes(pattern) : pattern.test(contents)
+
+  const statuses: PatchStatus[] = []
+  if (isAstPatch(patchOpts)) {
+    // typescript is big, so only load it when a template needs it
+    const { applyAstPatch } = require("./ast-patch") as AstPatchExports
+    try {
+      const result = applyAstPatch(patchPath, contents, patchOpts)
+      if (!result.alreadyPresent) filesystem.write(patchPath, result.contents)
+      statuses.push(result.alreadyPresent ? "already present" : "applied")
+      contents = result.contents
+    } catch (e) {
+      return { path: patchPath, status: "anchor missing", message: e.message }
+    }
+  }
+  if (patchOpts.append) {
+    if (includes(patchOpts.append)) {
+      statuses.push("already present")
+    } else {
+      await patching.append(patchPath, patchOpts.append)
+      contents = filesystem.read(patchPath) ?? contents
+      statuses.push("applied")
+    }
+  }
+  if (patchOpts.prepend) {
+    if (includes(patchOpts.prepend)) {
+      statuses.push("already present")
+    } else {
+      await patching.prepend(patchPath, patchOpts.prepend)
+      contents = filesystem.read(patchPath) ?? contents
+      statuses.push("applied")
+    }
+  }
+  const anchor = patchOpts.replace ?? patchOpts.delete ?? patchOpts.before ?? patchOpts.after
+  if (anchor !== undefined) {
+    if (patchOpts.insert && includes(patchOpts.insert) && !patchOpts.force) {
+      statuses.push("already present")
+    } else if (!includes(anchor)) {
+      return { path: patchPath, status: "anchor missing" }
+    } else {
+      await patching.patch(patchPath, patchOpts)
+      statuses.push("applied")
+    }
+  }
+
+  const applied = statuses.includes("applied") || statuses.length === 0
+  return { path: patchPath, status: applied ? "applied" : "already present" }
 }
 
 /**
  * Handles patching files via front matter config
  */
-async function handlePatches(data: { patches?: Patch[]; patch?: Patch }) {
+async function handlePatches(data: { patches?: Patch[]; patch?: Patch }): Promise<PatchResult[]> {
   const patches = data.patches ?? []
   if (data.patch) patches.push(data.patch)
+  const results: PatchResult[] = []
   for (const patch of patches) {
-    const { path: patchPath, skip, ...patchOpts } = patch
-    if (patchPath && !skip) {
-      if (patchOpts.append) {
-        await patching.append(patchPath, patchOpts.append)
+    if (patch.path) results.push(await applyPatch(patch))
+  }
+  return results
+}
+
+/**
+ * Undoes the patches `handlePatches` applied:
+ * - `append` and `prepend` remove the last and first copy of the text
+ * - `replace` with `insert` puts the original text back
+ * - `before` and `after` remove the inserted text
+ * - AST operations remove what they added, see `revertAstPatch`
+ * - `delete` can't be undone, so it's reported
+ */
+function revertPatches(data: { patches?: Patch[]; patch?: Patch }): {
+  reverted: string[]
+  notReverted: { path: string; reason: string }[]
+} {
+  const patches = [...(data.patches ?? []), ...(data.patch ? [data.patch] : [])]
+  const reverted: string[] = []
+  const notReverted: { path: string; reason: string }[] = []
+
+  // in reverse, so a patch is undone before the ones it may build on
+  for (const patch of [...patches].reverse()) {
+    const { path: patchPath, skip, append, prepend, replace, insert } = patch
+    if (!patchPath || skip) continue
+
+    const original = filesystem.read(patchPath)
+    if (original === undefined) {
+      notReverted.push({ path: patchPath, reason: "file not found" })
+      continue
+    }
+
+    let contents = original
+    const missing: string[] = []
+    const removeText = (text: string, fromEnd = false) => {
+      const index = fromEnd ? contents.lastIndexOf(text) : contents.indexOf(text)
+      if (index === -1) {
+        missing.push(text)
+      } else {
+        contents = contents.slice(0, index) + contents.slice(index + text.length)
       }
-      if (patchOpts.prepend) {
-        await patching.prepend(patchPath, patchOpts.prepend)
+    }
+
+    if (append) removeText(append, true)
+    if (prepend) removeText(prepend)
+    if (replace && insert) {
+      if (contents.includes(insert)) {
+        contents = contents.replace(insert, replace)
+      } else {
+        missing.push(insert)
       }
-      if (patchOpts.replace) {
-        await patching.replace(patchPath, patchOpts.replace, patchOpts.insert)
+    } else if (insert && (patch.before || patch.after)) {
+      removeText(insert)
+    }
+    if (isAstPatch(patch)) {
+      const { revertAstPatch } = require("./ast-patch") as AstPatchExports
+      try {
+        contents = revertAstPatch(patchPath, contents, patch)
+      } catch (e) {
+        notReverted.push({ path: patchPath, reason: e.message })
       }
-      await patching.patch(patchPath, patchOpts)
+    }
+    if (patch.delete) {
+      notReverted.push({
+        path: patchPath,
+        reason: `can't restore deleted text: ${JSON.stringify(patch.delete)}`,
+      })
+    }
+
+    missing.forEach((text) => {
+      notReverted.push({ path: patchPath, reason: `couldn't find ${JSON.stringify(text)}` })
+    })
+    if (contents !== original) {
+      filesystem.write(patchPath, contents)
+      if (!reverted.includes(patchPath)) reverted.push(patchPath)
     }
   }
+  return { reverted, notReverted }
 }
 
 /**
  * Finds generator templates installed in the current project
  */
-function installedGenerators(): string[] {
+export function installedGenerators(): string[] {
   const { subdirectories, separator } = filesystem
 
   const generators = subdirectories(templatesDir()).map((g) => g.split(separator).slice(-1)[0])
@@ -235,7 +566,7 @@ function installedGenerators(): string[] {
 
 type GeneratorCaseOptions = "auto" | "pascal" | "camel" | "kebab" | "snake" | "none"
 
-type GeneratorOptions = {
+export type GeneratorOptions = {
   name: string
   originalName: string
   skipIndexFile?: boolean
@@ -243,37 +574,119 @@ type GeneratorOptions = {
   overwrite: boolean
   dir?: string
   case?: GeneratorCaseOptions
+  /** dynamic segments of an Expo Router route, passed to the screen template */
+  routeParams?: ExpoRouterRouteParam[]
+  /** answers to the template's `prompts:` and any `--prop` flags */
+  templateProps?: Record<string, TemplatePropValue>
 }
 
 /**
- * Generates something using a template
+ * The `props` templates are rendered with: permutations of the name, the generator options
+ * and the answers to the template's prompts
  */
-export async function generateFromTemplate(
-  generator: string,
-  options: GeneratorOptions,
-): Promise<{ written: string[]; overwritten: string[]; exists: string[] }> {
-  const { find, path, dir, separator } = filesystem
-  const { pascalCase, kebabCase, pluralize, camelCase, snakeCase } = strings
+function templateProps(options: GeneratorOptions) {
+  const { pascalCase, kebabCase, camelCase, snakeCase, pluralize } = strings
+  return {
+    camelCaseName: camelCase(options.name),
+    kebabCaseName: kebabCase(options.name),
+    pascalCaseName: pascalCase(options.name),
+    snakeCaseName: snakeCase(options.name),
+    pluralCamelCaseName: camelCase(pluralize(options.name)),
+    pluralKebabCaseName: kebabCase(pluralize(options.name)),
+    pluralPascalCaseName: pascalCase(pluralize(options.name)),
+    ...options,
+    ...options.templateProps,
+  }
+}
 
-  // permutations of the name
-  const pascalCaseName = pascalCase(options.name)
-  const kebabCaseName = kebabCase(options.name)
-  const camelCaseName = camelCase(options.name)
-  const snakeCaseName = snakeCase(options.name)
+/**
+ * Collects the `prompts:` declared in a generator's template front matter. Front matter is
+ * rendered before the prompts are answered, so it can't use their answers.
+ * @throws if a template declares invalid prompts
+ */
+export function templatePrompts(generator: string, options: GeneratorOptions): TemplatePrompt[] {
+  const prompts: TemplatePrompt[] = []
+  const files = filesystem.find(filesystem.path(templatesDir(), generator), {
+    matching: TEMPLATE_FILES,
+  })
 
-  // array of written, exists and overwritten files
-  const written: string[] = []
-  const overwritten: string[] = []
-  const exists: string[] = []
+  for (const templateFilename of files) {
+    const parts = filesystem.read(templateFilename).split(`---${NEW_LINE}`)
+    if (parts.length !== 3) continue
+
+    let data = parts[1]
+    if (templateFilename.endsWith(".ejs")) {
+      data = ejs.render(data, { props: templateProps(options) })
+    }
+    parseTemplatePrompts(YAML.parse(data)?.prompts).forEach((prompt) => {
+      if (!prompts.some((p) => p.name === prompt.name)) prompts.push(prompt)
+    })
+  }
+  return prompts
+}
+
+/**
+ * Whether a generator is a recipe that runs other generators, rather than a set of templates
+ */
+export function isRecipe(generator: string): boolean {
+  return filesystem.exists(filesystem.path(templatesDir(), generator, RECIPE_FILE_NAME)) === "file"
+}
+
+/**
+ * Loads a generator's recipe, rendering its generator.yml with the same `props` as templates.
+ * @returns undefined if the generator isn't a recipe
+ * @throws if generator.yml is invalid
+ */
+export function loadRecipe(generator: string, options: GeneratorOptions): Recipe | undefined {
+  if (!isRecipe(generator)) return undefined
+
+  const recipePath = filesystem.path(templatesDir(), generator, RECIPE_FILE_NAME)
+  const contents = ejs.render(filesystem.read(recipePath), { props: templateProps(options) })
+  return parseRecipe(contents, options.name)
+}
+
+/**
+ * Logs a recipe run in ignite/generated.json alongside the runs of its steps, so it can be
+ * undone with the same prompt answers.
+ */
+export function logRecipeRun(generator: string, options: GeneratorOptions, written: string[]) {
+  recordGeneratorRun({
+    generator,
+    name: options.name,
+    options: manifestOptions(options),
+    templateChecksum: templateChecksum(filesystem.path(templatesDir(), generator)) ?? "",
+    written,
+    patched: [],
+  })
+}
+
+type RenderedFile = {
+  destinationPath: string
+  destinationDir: string
+  content: string
+  frontMatterData: FrontMatter
+}
+
+/**
+ * Renders every file in a generator's template folder and works out where each one goes.
+ * @returns undefined if a template's front matter can't be parsed
+ */
+function renderTemplateFiles(
+  generator: string,
+  options: GeneratorOptions,
+): RenderedFile[] | undefined {
+  const { find, path, separator } = filesystem
+  const { pluralize } = strings
 
   // passed into the template generator
-  const props = { camelCaseName, kebabCaseName, pascalCaseName, snakeCaseName, ...options }
+  const props = templateProps(options)
+  const { camelCaseName, kebabCaseName, pascalCaseName, snakeCaseName } = props
 
   // where are we copying from?
   const templateDir = path(templatesDir(), generator)
 
   // find the files
-  const files = find(templateDir, { matching: "*" })
+  const files = find(templateDir, { matching: TEMPLATE_FILES })
 
   // check case options
   let formattedName: string = pascalCaseName
@@ -296,6 +709,8 @@ export async function generateFromTemplate(
       break
   }
 
+  const rendered: RenderedFile[] = []
+
   // loop through the files
   for (const templateFilename of files) {
     // get the filename and replace `NAME` with the actual name
@@ -318,9 +733,12 @@ export async function generateFromTemplate(
     const { data: frontMatterData, content } = frontMatter(templateContents)
     if (!content) {
       warning("⚠️  Unable to parse front matter. Please check your delimiters.")
-      return { written, exists, overwritten }
+      return undefined
     }
 
+    // optional files, e.g. `skip: <%= !props.withTest %>`
+    if (bool(frontMatterData.skip)) continue
+
     // where are we copying to?
     const defaultDestinationDir = path(appDir(), pluralize(generator), options.subdirectory) // e.g. app/components, app/screens, app/models
     const overrideDestinationDir = options.dir ?? frontMatterData.destinationDir // cli dir takes priority over front matter dir
@@ -328,19 +746,45 @@ export async function generateFromTemplate(
       ? path(cwd(), overrideDestinationDir)
       : defaultDestinationDir
 
-    // apply any provided patches
     const destinationPath = path(destinationDir, frontMatterData.filename ?? filename)
 
+    rendered.push({ destinationPath, destinationDir, content, frontMatterData })
+  }
+  return rendered
+}
+
+/**
+ * Generates something using a template
+ */
+export async function generateFromTemplate(
+  generator: string,
+  options: GeneratorOptions,
+): Promise<{
+  written: string[]
+  overwritten: string[]
+  exists: string[]
+  patches: PatchResult[]
+}> {
+  // array of written, exists and overwritten files
+  const written: string[] = []
+  const overwritten: string[] = []
+  const exists: string[] = []
+  const patches: PatchResult[] = []
+
+  const { path } = filesystem
+  const files = renderTemplateFiles(generator, options) ?? []
+
+  for (const { destinationPath, destinationDir, content, frontMatterData } of files) {
     // apply any provided patches
     const isFileExist = filesystem.exists(destinationPath)
-    if (!isFileExist) await handlePatches(frontMatterData)
+    if (!isFileExist) patches.push(...(await handlePatches(frontMatterData)))
 
     // ensure destination folder exists
-    dir(destinationDir)
+    filesystem.dir(destinationDir)
 
     // check if file exist or not and check of overwrite property
     if (isFileExist) {
-      if (props.overwrite) {
+      if (options.overwrite) {
         filesystem.write(destinationPath, content)
         overwritten.push(destinationPath)
       } else {
@@ -351,7 +795,87 @@ export async function generateFromTemplate(
       written.push(destinationPath)
     }
   }
-  return { written, exists, overwritten }
+
+  // log the run in ignite/generated.json
+  if (written.length > 0 || overwritten.length > 0) {
+    recordGeneratorRun({
+      generator,
+      name: options.name,
+      options: manifestOptions(options),
+      templateChecksum: templateChecksum(path(templatesDir(), generator)) ?? "",
+      written: [...written, ...overwritten],
+      patched: patches.filter((patch) => patch.status === "applied").map((patch) => patch.path),
+    })
+  }
+  return { written, exists, overwritten, patches }
+}
+
+/**
+ * The options that decide what a generator run writes, as logged in ignite/generated.json
+ */
+export function manifestOptions(options: GeneratorOptions) {
+  const { dir, case: nameCase, subdirectory, skipIndexFile, templateProps: props } = options
+  return { dir, case: nameCase, subdirectory, skipIndexFile, props }
+}
+
+export type DestroyResult = {
+  /** generated files that were deleted */
+  removed: string[]
+  /** generated files that changed since they were generated, left alone unless forced */
+  modified: string[]
+  /** generated files that were already gone */
+  missing: string[]
+  /** files whose patches were undone */
+  reverted: string[]
+  /** patches that couldn't be undone, e.g. because the patched text was edited */
+  notReverted: { path: string; reason: string }[]
+}
+
+/**
+ * Reverses `generateFromTemplate`: renders the same template for the same name, deletes the
+ * files it would have written and undoes its patches. Files that no longer match what the
+ * template renders are left alone (along with their patches) unless `force` is set.
+ */
+export async function destroyFromTemplate(
+  generator: string,
+  options: GeneratorOptions & { force?: boolean },
+): Promise<DestroyResult> {
+  const result: DestroyResult = {
+    removed: [],
+    modified: [],
+    missing: [],
+    reverted: [],
+    notReverted: [],
+  }
+
+  const files = renderTemplateFiles(generator, options) ?? []
+
+  for (const { destinationPath, content, frontMatterData } of files) {
+    const isFileExist = filesystem.exists(destinationPath) === "file"
+
+    if (!isFileExist) {
+      result.missing.push(destinationPath)
+    } else if (filesystem.read(destinationPath) !== content) {
+      result.modified.push(destinationPath)
+      if (!options.force) continue
+    }
+
+    if (isFileExist) {
+      filesystem.remove(destinationPath)
+      result.removed.push(destinationPath)
+    }
+
+    const { reverted, notReverted } = revertPatches(frontMatterData)
+    reverted.forEach((patchPath) => {
+      if (!result.reverted.includes(patchPath)) result.reverted.push(patchPath)
+    })
+    result.notReverted.push(...notReverted)
+  }
+
+  if (result.removed.length > 0 || result.reverted.length > 0) {
+    removeGeneratorRun({ generator, name: options.name, options: manifestOptions(options) })
+  }
+  return result
 }
 
 /**
@@ -376,43 +900,76 @@ function availableGenerators(): string[] {
   return subdirectories(sourceDirectory()).map((g) => g.split(separator).slice(-1)[0])
 }
 
+type InstallOptions = {
+  /** generators whose changed files get a diff printed and confirmed before they're overwritten */
+  customized?: string[]
+  /** whether to overwrite a customized file with the new template */
+  confirmOverwrite?: (relativePath: string) => Promise<boolean>
+  /** saves the overwritten version of a customized file as `<file>.orig` */
+  backup?: boolean
+}
+
+type InstallResult = {
+  /** generators with any new or updated files */
+  changed: string[]
+  /** customized files that weren't overwritten, relative to the project root */
+  kept: string[]
+  /** `.orig` backups written, relative to the project root */
+  backups: string[]
+}
+
 /**
- * Copies over generators (specific generators, or all) from Ignite CLI to the project
- * ignite/templates folder.
+ * Copies over generators (specific generators, or all) from Ignite CLI, or a template pack,
+ * to the project ignite/templates folder.
  */
-function installGenerators(generators: string[]): string[] {
+async function installGenerators(
+  generators: string[],
+  sourceDir: string = sourceDirectory(),
+  options: InstallOptions = {},
+): Promise<InstallResult> {
   const { path, find, copy, dir, cwd, separator, exists, read } = filesystem
-  const sourceDir = sourceDirectory()
+  const { customized = [], confirmOverwrite = async () => false, backup = false } = options
   const targetDir = path(cwd(), "ignite", "templates")
+  const result: InstallResult = { changed: [], kept: [], backups: [] }
+
+  // ensure the directory exists
+  dir(targetDir)
 
   // for each generator type, copy it over to the ignite/templates folder
-  const changedGenerators = generators.filter((gen) => {
+  for (const gen of generators) {
     const sourceGenDir = path(sourceDir, gen)
     const targetGenDir = path(targetDir, gen)
+    let changed = false
 
-    // ensure the directory exists
-    dir(targetDir)
-
-    // find all source files
-    const files = find(sourceGenDir, { matching: "*" })
-
-    // copy them over
-    const changedFiles = files.filter((file) => {
+    // find all source files, and copy them over
+    for (const file of find(sourceGenDir, { matching: TEMPLATE_FILES })) {
       const filename = file.split(separator).slice(-1)[0]
       const targetFile = path(targetGenDir, filename)
-
-      if (!exists(targetFile) || read(targetFile) !== read(file)) {
-        copy(file, targetFile, { overwrite: true })
-        return true
-      } else {
-        return false
+      if (exists(targetFile) && read(targetFile) === read(file)) continue
+
+      if (exists(targetFile) && customized.includes(gen)) {
+        const relativePath = `ignite/templates/${gen}/${filename}`
+        p()
+        heading(`${relativePath} differs from the new template:`)
+        p(diffFiles(relativePath, targetFile, file))
+        if (!(await confirmOverwrite(relativePath))) {
+          result.kept.push(relativePath)
+          continue
+        }
+        if (backup) {
+          copy(targetFile, `${targetFile}.orig`, { overwrite: true })
+          result.backups.push(`${relativePath}.orig`)
+        }
       }
-    })
 
-    return changedFiles.length > 0
-  })
+      copy(file, targetFile, { overwrite: true })
+      changed = true
+    }
+
+    if (changed) result.changed.push(gen)
+  }
 
-  return changedGenerators
+  return result
 }
 
 enum Platforms {
@@ -0,0 +1,129 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import {
+  dependencyJsonPaths,
+  formatJson,
+  jsonPath,
+  parseJsonPath,
+  removeJsonPaths,
+  updateJsonFiles,
+} from "./json-markup"
+
+describe("json-markup", () => {
+  it("should split JSON paths into keys and back", () => {
+    expect(parseJsonPath("dependencies.@react-navigation/bottom-tabs")).toEqual([
+      "dependencies",
+      "@react-navigation/bottom-tabs",
+    ])
+    expect(parseJsonPath(`dependencies["socket.io"]`)).toEqual(["dependencies", "socket.io"])
+    expect(parseJsonPath("expo.plugins[1].ios")).toEqual(["expo", "plugins", "1", "ios"])
+    expect(jsonPath(["dependencies", "socket.io"])).toBe(`dependencies["socket.io"]`)
+    expect(dependencyJsonPaths(["mobx"])).toEqual(["dependencies.mobx", "devDependencies.mobx"])
+
+    expect(() => parseJsonPath("expo..name")).toThrow(`"expo..name" isn't a valid JSON path.`)
+    expect(() => parseJsonPath(".expo")).toThrow(`".expo" isn't a valid JSON path.`)
+    expect(() => parseJsonPath("")).toThrow(`"" isn't a valid JSON path.`)
+  })
+
+  it("should remove values by key, array index, value or plugin name", () => {
+    const appJson = {
+      expo: {
+        name: "HelloWorld",
+        extra: { segmentKey: "abc", sentryDsn: "def" },
+        plugins: ["expo-localization", ["expo-build-properties", { ios: {} }], "expo-font"],
+      },
+    }
+
+    const removed = removeJsonPaths(appJson, [
+      "expo.extra.segmentKey",
+      "expo.plugins.expo-build-properties",
+      "expo.plugins[0]",
+      "expo.plugins.expo-router",
+      "expo.ios.bundleIdentifier",
+    ])
+
+    expect(removed).toEqual([
+      "expo.extra.segmentKey",
+      "expo.plugins.expo-build-properties",
+      "expo.plugins[0]",
+    ])
+    expect(appJson).toEqual({
+      expo: { name: "HelloWorld", extra: { sentryDsn: "def" }, plugins: ["expo-font"] },
+    })
+  })
+
+  it("should write JSON with the indentation it was read with", () => {
+    expect(formatJson({ a: [1] }, `{\n    "a": []\n}\n`)).toBe(
+      `{\n    "a": [\n        1\n    ]\n}\n`,
+    )
+    expect(formatJson({ a: 1 }, `{}`)).toBe(`{\n  "a": 1\n}`)
+  })
+
+  describe("updateJsonFiles", () => {
+    const path = useTempDir()
+
+    beforeEach(() => {
+      filesystem.write(path("package.json"), {
+        dependencies: { "mobx-state-tree": "5.3.0", "@segment/analytics-react-native": "2.0.0" },
+      })
+      filesystem.write(path("ignite", "markup.json"), {
+        "@analytics": { "package.json": ["dependencies.@segment/analytics-react-native"] },
+        "@demo": { "app.json": ["expo.plugins.expo-font"] },
+      })
+    })
+
+    it("should remove the values listed for a prefix, and the prefix", async () => {
+      const results = await updateJsonFiles({
+        targetDir: path(),
+        markupPrefix: "@analytics",
+        jsonPaths: { "package.json": ["dependencies.mobx-state-tree"] },
+        dryRun: false,
+      })
+
+      expect(results).toEqual([
+        {
+          status: "fulfilled",
+          value: {
+            path: path("package.json"),
+            comments: [
+              "dependencies.@segment/analytics-react-native",
+              "dependencies.mobx-state-tree",
+            ],
+          },
+        },
+        {
+          status: "fulfilled",
+          value: { path: path("ignite", "markup.json"), comments: ["@analytics"] },
+        },
+      ])
+      expect(filesystem.read(path("package.json"), "json")).toEqual({ dependencies: {} })
+      expect(filesystem.read(path("ignite", "markup.json"), "json")).toEqual({
+        "@demo": { "app.json": ["expo.plugins.expo-font"] },
+      })
+    })
+
+    it("should only drop the prefix when removing markup, and nothing on dry runs", async () => {
+      const packageJson = filesystem.read(path("package.json"))
+      const markupJson = filesystem.read(path("ignite", "markup.json"))
+
+      await updateJsonFiles({ targetDir: path(), markupPrefix: "@analytics", dryRun: true })
+      expect(filesystem.read(path("package.json"))).toBe(packageJson)
+      expect(filesystem.read(path("ignite", "markup.json"))).toBe(markupJson)
+
+      await updateJsonFiles({
+        targetDir: path(),
+        markupPrefix: "@analytics",
+        removeMarkupOnly: true,
+        dryRun: false,
+      })
+      await updateJsonFiles({
+        targetDir: path(),
+        markupPrefix: "@demo",
+        removeMarkupOnly: true,
+        dryRun: false,
+      })
+      expect(filesystem.read(path("package.json"))).toBe(packageJson)
+      expect(filesystem.exists(path("ignite", "markup.json"))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { filesystem } from "gluegun"
+import * as pathlib from "path"
+
+export const JSON_MARKUP_FILE = "ignite/markup.json"
+
+/**
+ * JSON can't carry markup comments, so ignite/markup.json lists what each feature owns in the
+ * project's JSON files instead, by markup prefix, then file, then JSON path:
+ * `{ "@analytics": { "app.json": ["expo.plugins.@segment/analytics-react-native"] } }`
+ */
+export type JsonMarkup = Record<string, Record<string, string[]>>
+
+type JsonContainer = Record<string, unknown> | unknown[]
+
+// stands in for removed array items until every path has been looked up, so indexes don't shift
+const REMOVED = Symbol("removed")
+
+/**
+ * Reads ignite/markup.json from the project.
+ * @returns an empty object if the project doesn't have one
+ */
+export function readJsonMarkup(projectPath: string = process.cwd()): JsonMarkup {
+  const path = filesystem.path(projectPath, JSON_MARKUP_FILE)
+  if (filesystem.exists(path) !== "file") return {}
+
+  let data: unknown
+  try {
+    data = JSON.parse(filesystem.read(path))
+  } catch (e) {
+    throw new Error(`Couldn't parse ${JSON_MARKUP_FILE}. ${e.message}`)
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Expected ${JSON_MARKUP_FILE} to contain an object of markup prefixes.`)
+  }
+  return data as JsonMarkup
+}
+
+/**
+ * Splits a JSON path into its keys. Keys are separated by dots, and keys with dots or brackets
+ * in them go in quoted brackets: `expo.plugins`, `dependencies["socket.io"]`, `expo.plugins[0]`.
+ * @throws if the path can't be split up
+ */
+export function parseJsonPath(path: string): string[] {
+  const keyRegex = /\.?([^.[\]"]+)|\[("(?:[^"\\]|\\.)*"|\d+)\]/g
+  const keys: string[] = []
+  while (keyRegex.lastIndex < path.length) {
+    const start = keyRegex.lastIndex
+    const match = keyRegex.exec(path)
+    if (!match || match.index !== start || (start === 0 && match[0].startsWith("."))) {
+      throw new Error(`"${path}" isn't a valid JSON path.`)
+    }
+    keys.push(match[1] ?? String(JSON.parse(match[2])))
+  }
+  if (keys.length === 0) throw new Error(`"${path}" isn't a valid JSON path.`)
+  return keys
+}
+
+/**
+ * Writes keys as a JSON path, the other way around from `parseJsonPath`.
+ */
+export function jsonPath(keys: string[]): string {
+  return keys
+    .map((key, index) => {
+      if (/[.[\]"]/.test(key)) return `[${JSON.stringify(key)}]`
+      return index === 0 ? key : `.${key}`
+    })
+    .join("")
+}
+
+/**
+ * The JSON paths of packages in package.json, whichever kind of dependency they are.
+ */
+export function dependencyJsonPaths(dependencies: string[]): string[] {
+  return ["dependencies", "devDependencies"]
+    .map((group) => dependencies.map((dependency) => jsonPath([group, dependency])))
+    .reduce((paths, groupPaths) => paths.concat(groupPaths), [])
+}
+
+// an array item is found by its index, its value, or, for entries like expo's
+// `["expo-build-properties", { ... }]` plugins, the value of its first item
+function findKey(container: JsonContainer, key: string): string | number | undefined {
+  if (!Array.isArray(container)) {
+    return Object.prototype.hasOwnProperty.call(container, key) ? key : undefined
+  }
+  const index = /^\d+$/.test(key)
+    ? Number(key)
+    : container.findIndex((item) => item === key || (Array.isArray(item) && item[0] === key))
+  return index >= 0 && index < container.length && container[index] !== REMOVED ? index : undefined
+}
+
+/**
+ * Removes the values at some JSON paths from parsed JSON, leaving the rest in place.
+ * Paths that aren't there are skipped.
+ * @returns the paths that were removed
+ */
+export function removeJsonPaths(data: unknown, paths: string[]): string[] {
+  const removed: string[] = []
+  const trimmedArrays: unknown[][] = []
+
+  paths.forEach((path) => {
+    const keys = parseJsonPath(path)
+    let container = data
+    for (let index = 0; index < keys.length; index++) {
+      const key = keys[index]
+      if (!container || typeof container !== "object") return
+      const found = findKey(container as JsonContainer, key)
+      if (found === undefined) return
+
+      if (index < keys.length - 1) {
+        container = container[found]
+      } else if (Array.isArray(container)) {
+        container[found] = REMOVED
+        trimmedArrays.push(container)
+      } else {
+        delete container[found]
+      }
+    }
+    removed.push(path)
+  })
+
+  trimmedArrays.forEach((array) => {
+    const kept = array.filter((item) => item !== REMOVED)
+    array.splice(0, array.length, ...kept)
+  })
+  return removed
+}
+
+/**
+ * Writes JSON back out with the indentation and final newline of the file it was read from.
+ */
+export function formatJson(data: unknown, original: string): string {
+  const indentation = original.match(/^[ \t]+(?=")/m)?.[0] ?? "  "
+  const newline = original.endsWith("\n") ? "\n" : ""
+  return JSON.stringify(data, null, indentation) + newline
+}
+
+/**
+ * The JSON counterpart of `updateFiles`: removes the values ignite/markup.json lists for a markup
+ * prefix, plus any `jsonPaths` passed in (by file, relative to `targetDir`), then drops the
+ * prefix from ignite/markup.json. With `removeMarkupOnly`, only does the last part.
+ * @returns results in the same shape as `updateFiles`, with the removed paths as the comments
+ */
+export async function updateJsonFiles({
+  targetDir,
+  markupPrefix,
+  jsonPaths = {},
+  dryRun = true,
+  removeMarkupOnly = false,
+}: {
+  targetDir: string
+  markupPrefix: string
+  jsonPaths?: Record<string, string[]>
+  dryRun?: boolean
+  removeMarkupOnly?: boolean
+}) {
+  const markup = readJsonMarkup(targetDir)
+  const pathsByFile: Record<string, string[]> = {}
+  const addPaths = (files: Record<string, string[]>) => {
+    Object.keys(files).forEach((file) => {
+      pathsByFile[file] = (pathsByFile[file] ?? []).concat(files[file])
+    })
+  }
+  if (!removeMarkupOnly) {
+    addPaths(markup[markupPrefix] ?? {})
+    addPaths(jsonPaths)
+  }
+
+  const jsonResults = await Promise.allSettled(
+    Object.keys(pathsByFile).map(async (file) => {
+      const path = pathlib.join(targetDir, file)
+      if (filesystem.exists(path) !== "file") return { path, comments: [] as string[] }
+
+      const before = filesystem.read(path)
+      let data: unknown
+      try {
+        data = JSON.parse(before)
+      } catch (e) {
+        throw new Error(`${path}: Couldn't parse it. ${e.message}`)
+      }
+      const comments = removeJsonPaths(data, pathsByFile[file])
+      if (!dryRun && comments.length > 0) filesystem.write(path, formatJson(data, before))
+      return { path, comments }
+    }),
+  )
+
+  // the prefix's entry is markup like any comment, so it goes either way
+  const markupResults = await Promise.allSettled(
+    Object.keys(markup)
+      .filter((prefix) => prefix === markupPrefix)
+      .map(async (prefix) => {
+        const path = pathlib.join(targetDir, JSON_MARKUP_FILE)
+        if (!dryRun) {
+          const before = filesystem.read(path)
+          delete markup[prefix]
+          if (Object.keys(markup).length > 0) filesystem.write(path, formatJson(markup, before))
+          else filesystem.remove(path)
+        }
+        return { path, comments: [prefix] }
+      }),
+  )
+
+  return [...jsonResults, ...markupResults]
+}
@@ -0,0 +1,110 @@
+import { inferSchema, modelFromSchema, schemaType, valueCode } from "./json-schema"
+
+const episode = {
+  guid: "https://rss.simplecast.com/1",
+  title: "RNR 244 - Ignite",
+  duration: 3600.5,
+  explicit: false,
+  enclosure: { link: "https://example.com/1.mp3", length: 0 },
+  categories: ["react-native"],
+  guests: [
+    { name: "Jamon", twitter: "jamonholmgren" },
+    { name: "Robin", twitter: null },
+  ],
+  sponsor: null,
+}
+
+describe("json-schema", () => {
+  it("should turn schemas into TypeScript types", () => {
+    expect(schemaType({ $ref: "#/components/schemas/pet-owner" })).toBe("PetOwner")
+    expect(schemaType({ type: "string", enum: ["a", "b"], nullable: true })).toBe(
+      `"a" | "b" | null`,
+    )
+    expect(
+      schemaType({ type: "array", items: { oneOf: [{ type: "string" }, { type: "integer" }] } }),
+    ).toBe("(string | number)[]")
+    expect(
+      schemaType({
+        type: "object",
+        required: ["first-name"],
+        properties: { "first-name": { type: "string" }, "nick-name": { type: ["string", "null"] } },
+      }),
+    ).toBe(`{ "first-name": string; "nick-name"?: string | null }`)
+    expect(schemaType({ type: "object", additionalProperties: { type: "boolean" } })).toBe(
+      "Record<string, boolean>",
+    )
+  })
+
+  it("should work out a model's props from a sample", () => {
+    const model = modelFromSchema("Episode", inferSchema(episode), episode)
+
+    expect(model.props).toEqual([
+      "    guid: types.identifier,",
+      "    title: types.string,",
+      "    duration: types.number,",
+      "    explicit: types.boolean,",
+      "    enclosure: EnclosureModel,",
+      "    categories: types.array(types.string),",
+      "    guests: types.array(GuestModel),",
+      "    sponsor: types.frozen<unknown>(),",
+    ])
+    expect(model.subModels).toEqual([
+      [
+        `const EnclosureModel = types.model("Enclosure").props({`,
+        "  link: types.string,",
+        "  length: types.number,",
+        "})",
+      ].join("\n"),
+      [
+        `const GuestModel = types.model("Guest").props({`,
+        "  name: types.string,",
+        "  twitter: types.maybeNull(types.string),",
+        "})",
+      ].join("\n"),
+    ])
+    expect(model.snapshot).toBe(episode)
+  })
+
+  it("should work out a model's props and a snapshot from a JSON Schema", () => {
+    const model = modelFromSchema("Todo", {
+      type: "object",
+      required: ["id", "title", "status"],
+      properties: {
+        id: { type: "integer" },
+        title: { type: "string", description: "What to do", example: "Buy milk" },
+        status: { $ref: "#/$defs/status" },
+        assignee: { $ref: "#/$defs/user" },
+        watchers: { type: "array", items: { $ref: "#/$defs/user" } },
+      },
+      $defs: {
+        status: { type: "string", enum: ["todo", "done"] },
+        user: { type: "object", required: ["name"], properties: { name: { type: "string" } } },
+      },
+    })
+
+    expect(model.props).toEqual([
+      "    id: types.identifierNumber,",
+      "    /**\n     * What to do\n     */\n    title: types.string,",
+      `    status: types.enumeration(["todo", "done"]),`,
+      "    assignee: types.maybe(UserModel),",
+      "    watchers: types.array(UserModel),",
+    ])
+    expect(model.subModels).toHaveLength(1)
+    expect(model.snapshot).toEqual({
+      id: 1,
+      title: "Buy milk",
+      status: "todo",
+      assignee: { name: "" },
+      watchers: [],
+    })
+    expect(() => modelFromSchema("Todo", { type: "string" })).toThrow("needs to describe an object")
+  })
+
+  it("should write values the way Prettier formats them", () => {
+    expect(valueCode({ id: 1, tags: ["a", "b"], nested: { ok: true }, empty: {} })).toBe(
+      `{\n  id: 1,\n  tags: ["a", "b"],\n  nested: {\n    ok: true,\n  },\n  empty: {},\n}`,
+    )
+    expect(valueCode({ "first-name": "Jamon" })).toBe(`{\n  "first-name": "Jamon",\n}`)
+    expect(valueCode([{ a: null }])).toBe(`[\n  {\n    a: null,\n  },\n]`)
+  })
+})
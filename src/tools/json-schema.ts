@@ -0,0 +1,380 @@
+import { filesystem, strings } from "gluegun"
+import * as YAML from "yaml"
+
+/**
+ * The parts of a JSON Schema (or an OpenAPI 3 schema object) Ignite's generators understand.
+ * Anything else is typed as `unknown`.
+ */
+export type JsonSchema = {
+  $ref?: string
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  example?: unknown
+  examples?: unknown[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  nullable?: boolean
+  description?: string
+  definitions?: Record<string, JsonSchema>
+  $defs?: Record<string, JsonSchema>
+}
+
+/** A model's props, worked out from a JSON sample or schema */
+export type SchemaModel = {
+  /** declarations of the models it nests, which go before it */
+  subModels: string[]
+  /** the lines inside its `.props({})` */
+  props: string[]
+  /** a snapshot that fits the model, for its test */
+  snapshot: unknown
+}
+
+/** Fields that become a model's `types.identifier`, in order of preference */
+const IDENTIFIER_KEYS = ["id", "guid", "uuid", "_id"]
+const MAX_LINE_LENGTH = 100
+
+export function refName(ref: string) {
+  return strings.pascalCase(ref.split("/").pop())
+}
+
+export function propertyKey(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/** Whether a type needs parentheses to be used as an array's element type */
+function isCompound(type: string) {
+  let depth = 0
+  for (const char of type) {
+    if ("{(<[".includes(char)) depth++
+    else if ("})>]".includes(char)) depth--
+    else if (depth === 0 && (char === "|" || char === "&")) return true
+  }
+  return false
+}
+
+export function docComment(description: string | undefined, indent = "") {
+  if (!description?.trim()) return ""
+  const lines = description
+    .trim()
+    .split("\n")
+    .map((line) => `${indent} * ${line.replace(/\*\//g, "*\\/")}`.replace(/\s+$/, ""))
+  return [`${indent}/**`, ...lines, `${indent} */`, ""].join("\n")
+}
+
+/**
+ * The TypeScript type for a schema. Refs are named after their last segment, with `prefix`,
+ * e.g. `ApiTypes.Pet` for `#/components/schemas/Pet` in the OpenAPI models file.
+ */
+export function schemaType(schema: JsonSchema | undefined, prefix = ""): string {
+  if (!schema) return "unknown"
+  if (schema.$ref) return `${prefix}${refName(schema.$ref)}`
+
+  let type: string
+  const nullable = schema.nullable || (Array.isArray(schema.type) && schema.type.includes("null"))
+  const types = [].concat(schema.type ?? []).filter((t: string) => t !== "null")
+
+  if (schema.enum) {
+    type = schema.enum.map((value) => JSON.stringify(value)).join(" | ")
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf).map((s) => schemaType(s, prefix)).join(" | ")
+  } else if (schema.allOf) {
+    type = schema.allOf.map((s) => schemaType(s, prefix)).join(" & ")
+  } else if (types.length > 1) {
+    type = types.map((t) => schemaType({ ...schema, type: t, nullable: false }, prefix)).join(" | ")
+  } else if (types[0] === "string") {
+    type = "string"
+  } else if (types[0] === "number" || types[0] === "integer") {
+    type = "number"
+  } else if (types[0] === "boolean") {
+    type = "boolean"
+  } else if (types[0] === "array") {
+    const item = schemaType(schema.items, prefix)
+    type = isCompound(item) ? `(${item})[]` : `${item}[]`
+  } else if (schema.properties) {
+    const required = schema.required ?? []
+    const properties = Object.keys(schema.properties).map((name) => {
+      const optional = required.includes(name) ? "" : "?"
+      return `${propertyKey(name)}${optional}: ${schemaType(schema.properties[name], prefix)}`
+    })
+    type = properties.length > 0 ? `{ ${properties.join("; ")} }` : "Record<string, unknown>"
+  } else if (types[0] === "object" || schema.additionalProperties) {
+    const values = schema.additionalProperties
+    type = `Record<string, ${typeof values === "object" ? schemaType(values, prefix) : "unknown"}>`
+  } else {
+    type = "unknown"
+  }
+
+  return nullable && type !== "unknown" ? `${type} | null` : type
+}
+
+/**
+ * The MST type for a schema property. Refs and nested objects use the model `modelFor` gives
+ * them, if any; anything MST can't describe is `types.frozen` with the type `frozenType` gives.
+ */
+export function modelType(
+  schema: JsonSchema,
+  required: boolean,
+  options: {
+    /** the model for an object schema (or an array's items), or undefined to freeze it */
+    modelFor: (schema: JsonSchema, item: boolean) => string | undefined
+    frozenType: (schema: JsonSchema) => string
+  },
+  item = false,
+): string {
+  let type: string
+  const types: string[] = [].concat(schema.type ?? [])
+  const nullable = schema.nullable || types.includes("null")
+  const [baseType, ...otherTypes] = types.filter((t) => t !== "null")
+  const simple = !schema.$ref && !schema.oneOf && !schema.anyOf && !schema.allOf && !otherTypes[0]
+  const model = (schema.$ref || schema.properties) && options.modelFor(schema, item)
+
+  if (model) {
+    type = model
+  } else if (schema.enum && schema.enum.every((value) => typeof value === "string")) {
+    type = `types.enumeration([${schema.enum.map((v) => JSON.stringify(v)).join(", ")}])`
+  } else if (simple && baseType === "string") {
+    type = "types.string"
+  } else if (simple && (baseType === "number" || baseType === "integer")) {
+    type = "types.number"
+  } else if (simple && baseType === "boolean") {
+    type = "types.boolean"
+  } else if (simple && baseType === "array" && schema.items) {
+    // arrays default to empty, so they're never `maybe`
+    type = `types.array(${modelType(schema.items, true, options, true)})`
+    required = true
+  } else {
+    return `types.frozen<${options.frozenType(schema)}>()`
+  }
+
+  if (nullable) return `types.maybeNull(${type})`
+  return required ? type : `types.maybe(${type})`
+}
+
+/** The schema a `#/definitions/...` or `#/$defs/...` ref points to in `root` */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#/")) return undefined
+  return ref
+    .slice(2)
+    .split("/")
+    .reduce((schema, segment) => schema?.[decodeURIComponent(segment)], root)
+}
+
+/**
+ * Merges the schemas of an array's elements: objects get every key any of them has, required
+ * if all of them have it. Elements of different types can't be merged, so they're unknown.
+ */
+function mergeSchemas(schemas: JsonSchema[]): JsonSchema {
+  const nullable = schemas.some((schema) => schema.nullable)
+  const typed = schemas.filter((schema) => schema.type)
+  if (typed.length === 0) return nullable ? { nullable } : {}
+
+  const types = typed.map((schema) => schema.type).filter((t, i, all) => all.indexOf(t) === i)
+  const merged: JsonSchema = { type: types.length === 1 ? types[0] : undefined }
+  if (types.every((t) => t === "integer" || t === "number")) {
+    merged.type = types.includes("number") ? "number" : "integer"
+  } else if (types.length > 1) {
+    return {}
+  } else if (types[0] === "array") {
+    merged.items = mergeSchemas(typed.map((schema) => schema.items))
+  } else if (types[0] === "object") {
+    merged.properties = {}
+    typed.forEach((schema) => {
+      Object.keys(schema.properties).forEach((key) => {
+        const all = typed.map((s) => s.properties[key]).filter(Boolean)
+        merged.properties[key] = mergeSchemas(all)
+      })
+    })
+    merged.required = Object.keys(merged.properties).filter((key) =>
+      typed.every((schema) => schema.required.includes(key)),
+    )
+  }
+  return nullable ? { ...merged, nullable } : merged
+}
+
+/**
+ * Works out a JSON Schema from a sample, e.g. an API response. Keys that are null or missing in
+ * some of an array's objects are optional.
+ */
+export function inferSchema(sample: unknown): JsonSchema {
+  if (sample === null || sample === undefined) return { nullable: true }
+  if (Array.isArray(sample)) return { type: "array", items: mergeSchemas(sample.map(inferSchema)) }
+  if (typeof sample === "string" || typeof sample === "boolean") return { type: typeof sample }
+  if (typeof sample === "number") return { type: Number.isInteger(sample) ? "integer" : "number" }
+
+  const properties: Record<string, JsonSchema> = {}
+  Object.keys(sample).forEach((key) => (properties[key] = inferSchema(sample[key])))
+  const required = Object.keys(sample).filter((key) => sample[key] !== null)
+  return { type: "object", properties, required }
+}
+
+/** The first id-like field that's always there, for `types.identifier` */
+function identifierKey(schema: JsonSchema) {
+  return Object.keys(schema.properties).find((key) => {
+    const property = schema.properties[key]
+    return (
+      IDENTIFIER_KEYS.includes(key.toLowerCase()) &&
+      (schema.required ?? []).includes(key) &&
+      !property.nullable &&
+      ["string", "integer", "number"].includes(property.type as string)
+    )
+  })
+}
+
+/** A value that fits a schema, preferring its examples and default */
+function schemaSnapshot(schema: JsonSchema, root: JsonSchema, visiting: string[]): unknown {
+  if (schema.$ref) {
+    const target = resolveRef(root, schema.$ref)
+    if (!target || visiting.includes(schema.$ref)) return undefined
+    return schemaSnapshot(target, root, [...visiting, schema.$ref])
+  }
+  const example = schema.example ?? schema.examples?.[0] ?? schema.default ?? schema.const
+  if (example !== undefined) return example
+  if (schema.enum) return schema.enum[0]
+
+  const [type] = [].concat(schema.type ?? []).filter((t: string) => t !== "null")
+  if (type === "string") return ""
+  if (type === "number" || type === "integer") return 0
+  if (type === "boolean") return false
+  if (type === "array") return []
+  if (!schema.properties) return schema.nullable ? null : undefined
+
+  const idKey = identifierKey(schema)
+  const snapshot = {}
+  Object.keys(schema.properties).forEach((key) => {
+    const value = schemaSnapshot(schema.properties[key], root, visiting)
+    if (value !== undefined) snapshot[key] = value
+  })
+  // the identifier can't be a blank placeholder
+  if (idKey && (snapshot[idKey] === "" || snapshot[idKey] === 0)) {
+    snapshot[idKey] = schema.properties[idKey].type === "string" ? "1" : 1
+  }
+  return snapshot
+}
+
+/**
+ * Works out a model's props from a JSON Schema (see `inferSchema` for samples). Nested objects
+ * and refs become models of their own, named after their key or ref; an id-like field becomes
+ * the identifier.
+ * @param snapshot a snapshot for the model's test; one is made up from the schema if not given
+ */
+export function modelFromSchema(
+  name: string,
+  schema: JsonSchema,
+  snapshot: unknown = schemaSnapshot(schema, schema, []),
+): SchemaModel {
+  const subModels: string[] = []
+  const names = [name]
+  const refModels: Record<string, string> = {}
+  const visiting: string[] = []
+
+  const uniqueName = (base: string, parent: string) => {
+    let unique = names.includes(base) ? `${parent}${base}` : base
+    for (let i = 2; names.includes(unique); i++) unique = `${parent}${base}${i}`
+    names.push(unique)
+    return unique
+  }
+
+  const propsOf = (modelName: string, object: JsonSchema, indent: string): string[] => {
+    const required = object.required ?? []
+    const idKey = identifierKey(object)
+    return Object.keys(object.properties).map((key) => {
+      let property = object.properties[key]
+      // refs to anything but objects, like enums, are used in place
+      const target = property.$ref && resolveRef(schema, property.$ref)
+      if (target && !target.properties) property = target
+      let type = modelType(property, required.includes(key), {
+        modelFor: (s, item) =>
+          modelFor(s, strings.pascalCase(item ? strings.singular(key) : key), modelName),
+        // refs left over are cycles, whose types aren't in this file
+        frozenType: (s) => (JSON.stringify(s).includes('"$ref"') ? "unknown" : schemaType(s)),
+      })
+      if (key === idKey) {
+        type = type === "types.string" ? "types.identifier" : "types.identifierNumber"
+      }
+      return docComment(property.description, indent) + `${indent}${propertyKey(key)}: ${type},`
+    })
+  }
+
+  const declare = (modelName: string, object: JsonSchema) => {
+    const props = propsOf(modelName, object, "  ")
+    subModels.push(
+      [
+        docComment(object.description) +
+          `const ${modelName}Model = types.model(${JSON.stringify(modelName)}).props({`,
+        ...props,
+        "})",
+      ].join("\n"),
+    )
+    return `${modelName}Model`
+  }
+
+  const modelFor = (s: JsonSchema, key: string, parent: string): string | undefined => {
+    if (!s.$ref) return s.properties && declare(uniqueName(key, parent), s)
+
+    const target = resolveRef(schema, s.$ref)
+    if (refModels[s.$ref] || visiting.includes(s.$ref) || !target?.properties) {
+      return refModels[s.$ref]
+    }
+    visiting.push(s.$ref)
+    refModels[s.$ref] = declare(uniqueName(refName(s.$ref), parent), target)
+    visiting.pop()
+    return refModels[s.$ref]
+  }
+
+  if (!schema.properties) throw new Error(`The schema for ${name} needs to describe an object.`)
+  return { subModels, props: propsOf(name, schema, "    "), snapshot }
+}
+
+/**
+ * Reads a model's props from a JSON sample (`--from`) or a JSON Schema (`--schema`). A sample
+ * that's an array, like a list response, describes its elements.
+ * @throws if the file is missing or doesn't describe an object
+ */
+export function readSchemaModel(
+  name: string,
+  source: { sample?: string; schema?: string },
+): SchemaModel {
+  const path = source.schema ?? source.sample
+  if (filesystem.exists(path) !== "file") throw new Error(`Couldn't find ${path}.`)
+  const contents = YAML.parse(filesystem.read(path))
+
+  if (source.schema) return modelFromSchema(name, contents)
+  const schema = inferSchema(contents)
+  const sample = Array.isArray(contents) ? contents[0] : contents
+  return modelFromSchema(name, schema.items ?? schema, sample)
+}
+
+/**
+ * Writes a value as TypeScript, the way Prettier formats it: objects expanded, and arrays on one
+ * line if they fit.
+ * @param column where the value starts on its line
+ */
+export function valueCode(value: unknown, indent = "", column = indent.length): string {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => valueCode(item, `${indent}  `))
+    const oneLine = `[${items.join(", ")}]`
+    if (items.every((item) => !item.includes("\n")) && column + oneLine.length < MAX_LINE_LENGTH) {
+      return oneLine
+    }
+    return `[\n${items.map((item) => `${indent}  ${item},`).join("\n")}\n${indent}]`
+  }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value)
+    if (keys.length === 0) return "{}"
+    // Prettier's "consistent" quoteProps quotes all the keys if one needs it
+    const quote = keys.some((key) => propertyKey(key) !== key)
+    const lines = keys.map((key) => {
+      const start = `${indent}  ${quote ? JSON.stringify(key) : key}: `
+      return `${start}${valueCode(value[key], `${indent}  `, start.length)},`
+    })
+    return `{\n${lines.join("\n")}\n${indent}}`
+  }
+  return JSON.stringify(value ?? null)
+}
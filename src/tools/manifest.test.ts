@@ -0,0 +1,56 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import {
+  findStaleGeneratorRuns,
+  readGeneratedManifest,
+  recordGeneratorRun,
+  removeGeneratorRun,
+  templateChecksum,
+} from "./manifest"
+
+describe("manifest", () => {
+  const tempPath = useTempDir()
+  let projectPath: string
+  const templatesDir = () => filesystem.path(projectPath, "ignite", "templates")
+  const run = (name: string) => ({
+    generator: "component",
+    name,
+    options: { subdirectory: "" },
+    templateChecksum: templateChecksum(filesystem.path(templatesDir(), "component")) ?? "",
+    written: [filesystem.path(projectPath, "app", "components", `${name}.tsx`)],
+    patched: ["app/components/index.ts", "app/components/index.ts"],
+  })
+
+  beforeEach(() => {
+    projectPath = tempPath()
+    filesystem.write(filesystem.path(templatesDir(), "component", "NAME.tsx.ejs"), "v1")
+  })
+
+  it("should log runs with project-relative paths, replacing earlier runs of the same name", () => {
+    recordGeneratorRun(run("Button"), projectPath)
+    recordGeneratorRun(run("Card"), projectPath)
+    recordGeneratorRun(run("Button"), projectPath)
+
+    const { runs } = readGeneratedManifest(projectPath)
+    expect(runs.map((r) => r.name)).toEqual(["Card", "Button"])
+    expect(runs[1].written).toEqual(["app/components/Button.tsx"])
+    expect(runs[1].patched).toEqual(["app/components/index.ts"])
+
+    removeGeneratorRun(run("Card"), projectPath)
+    expect(readGeneratedManifest(projectPath).runs.map((r) => r.name)).toEqual(["Button"])
+  })
+
+  it("should find runs whose template changed since they ran", () => {
+    recordGeneratorRun(run("Button"), projectPath)
+    expect(findStaleGeneratorRuns(templatesDir(), projectPath)).toEqual([])
+
+    // backups left by `ignite update` aren't part of the template
+    filesystem.write(filesystem.path(templatesDir(), "component", "NAME.tsx.ejs.orig"), "v0")
+    expect(findStaleGeneratorRuns(templatesDir(), projectPath)).toEqual([])
+
+    filesystem.write(filesystem.path(templatesDir(), "component", "NAME.tsx.ejs"), "v2")
+    expect(findStaleGeneratorRuns(templatesDir(), projectPath).map((r) => r.name)).toEqual([
+      "Button",
+    ])
+  })
+})
@@ -0,0 +1,153 @@
+import { createHash } from "crypto"
+import { filesystem } from "gluegun"
+import * as pathlib from "path"
+import type { TemplatePropValue } from "./template-prompts"
+
+/** Every generator run is logged here, relative to the project root */
+export const GENERATED_MANIFEST_PATH = "ignite/generated.json"
+
+/** Files in a generator's folder that are templates; `ignite update` leaves `.orig` backups */
+export const TEMPLATE_FILES = ["*", "!*.orig"]
+
+export type GeneratorRunOptions = {
+  dir?: string
+  case?: string
+  subdirectory?: string
+  skipIndexFile?: boolean
+  /** answers to the template's prompts, so the run can be repeated or undone */
+  props?: Record<string, TemplatePropValue>
+}
+
+export type GeneratorRun = {
+  generator: string
+  name: string
+  options: GeneratorRunOptions
+  /** checksum of the template folder the files were generated from */
+  templateChecksum: string
+  /** files the generator wrote, relative to the project root */
+  written: string[]
+  /** existing files the generator patched, relative to the project root */
+  patched: string[]
+  generatedAt: string
+}
+
+export type GeneratedManifest = {
+  runs: GeneratorRun[]
+}
+
+function manifestPath(projectPath: string) {
+  return filesystem.path(projectPath, GENERATED_MANIFEST_PATH)
+}
+
+function relativePath(projectPath: string, file: string) {
+  const absolute = filesystem.path(projectPath, file)
+  return pathlib.relative(projectPath, absolute).split("\\").join("/")
+}
+
+/** Runs are the same if they'd write the same files, so re-running replaces the old entry */
+function isSameRun(a: GeneratorRun, b: Pick<GeneratorRun, "generator" | "name" | "options">) {
+  return (
+    a.generator === b.generator &&
+    a.name === b.name &&
+    (a.options.dir ?? "") === (b.options.dir ?? "") &&
+    (a.options.subdirectory ?? "") === (b.options.subdirectory ?? "")
+  )
+}
+
+/**
+ * Hashes every file in a generator's template folder, so we can tell when it changes.
+ * @returns undefined if the folder doesn't exist
+ */
+export function templateChecksum(templateDir: string): string | undefined {
+  if (filesystem.exists(templateDir) !== "dir") return undefined
+
+  const hash = createHash("sha256")
+  filesystem
+    .find(templateDir, { matching: TEMPLATE_FILES })
+    // find returns paths relative to the current directory
+    .map((file) => relativePath(templateDir, filesystem.path(file)))
+    .sort()
+    .forEach((file) => {
+      hash.update(file)
+      hash.update(filesystem.read(filesystem.path(templateDir, file), "buffer"))
+    })
+  return hash.digest("hex")
+}
+
+/**
+ * Reads the manifest of generator runs.
+ * @returns an empty manifest if there isn't one or it can't be parsed
+ */
+export function readGeneratedManifest(projectPath: string = process.cwd()): GeneratedManifest {
+  try {
+    const manifest = filesystem.read(manifestPath(projectPath), "json")
+    return { runs: manifest?.runs ?? [] }
+  } catch {
+    return { runs: [] }
+  }
+}
+
+function writeGeneratedManifest(manifest: GeneratedManifest, projectPath: string) {
+  filesystem.write(manifestPath(projectPath), manifest)
+}
+
+/**
+ * Logs a generator run, replacing any earlier run of the same generator and name.
+ * File paths may be absolute or relative to the project root.
+ */
+export function recordGeneratorRun(
+  run: Omit<GeneratorRun, "generatedAt">,
+  projectPath: string = process.cwd(),
+) {
+  const manifest = readGeneratedManifest(projectPath)
+  const runs = manifest.runs.filter((r) => !isSameRun(r, run))
+  runs.push({
+    ...run,
+    written: run.written.map((file) => relativePath(projectPath, file)),
+    patched: run.patched
+      .map((file) => relativePath(projectPath, file))
+      .filter((file, index, files) => files.indexOf(file) === index),
+    generatedAt: new Date().toISOString(),
+  })
+  writeGeneratedManifest({ runs }, projectPath)
+}
+
+/**
+ * Finds the logged run of a generator, e.g. to undo it with the same prompt answers.
+ */
+export function findGeneratorRun(
+  run: Pick<GeneratorRun, "generator" | "name" | "options">,
+  projectPath: string = process.cwd(),
+): GeneratorRun | undefined {
+  return readGeneratedManifest(projectPath).runs.find((r) => isSameRun(r, run))
+}
+
+/**
+ * Drops a generator run from the manifest, e.g. after `ignite destroy`.
+ */
+export function removeGeneratorRun(
+  run: Pick<GeneratorRun, "generator" | "name" | "options">,
+  projectPath: string = process.cwd(),
+) {
+  const manifest = readGeneratedManifest(projectPath)
+  const runs = manifest.runs.filter((r) => !isSameRun(r, run))
+  if (runs.length !== manifest.runs.length) writeGeneratedManifest({ runs }, projectPath)
+}
+
+/**
+ * Finds generator runs whose template has changed since they ran, e.g. after `ignite g --update`.
+ * Runs whose template folder was removed aren't considered stale.
+ */
+export function findStaleGeneratorRuns(
+  templatesDir: string,
+  projectPath: string = process.cwd(),
+): GeneratorRun[] {
+  const checksums: Record<string, string | undefined> = {}
+  return readGeneratedManifest(projectPath).runs.filter((run) => {
+    if (!(run.generator in checksums)) {
+      checksums[run.generator] = templateChecksum(filesystem.path(templatesDir, run.generator))
+    }
+    const checksum = checksums[run.generator]
+    return checksum !== undefined && checksum !== run.templateChecksum
+  })
+}
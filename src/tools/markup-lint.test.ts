@@ -0,0 +1,103 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import { lintJsonMarkup, lintMarkup } from "./markup-lint"
+
+describe("markup-lint", () => {
+  it("should accept well-formed markup", () => {
+    const contents = [
+      `import { A } from "./a" // @demo remove-current-line`,
+      "// @demo remove-next-line",
+      `import { B } from "./b"`,
+      "{/* @demo remove-block-start:list */}",
+      "<List />",
+      "{/* @demo remove-block-end:list */}",
+      "# @demo replace-next-line appId: com.example",
+      "appId: com.helloworld",
+      "// @demo replace-block-start",
+      "const a = 1",
+      "// @demo replace-block-with",
+      "// const a = 2",
+      "// @demo replace-block-end",
+      "<!-- @demo remove-next-line -->",
+      `<uses-permission android:name="android.permission.CAMERA" />`,
+    ].join("\n")
+
+    expect(lintMarkup(contents, "@demo")).toEqual([])
+  })
+
+  it("should report typos, misplaced labels and comments with no line to act on", () => {
+    const contents = [
+      "// @demo remove-blok-start",
+      "const a = 1 // @demo remove-current-line:a",
+      "// @demo remove-next-line",
+      "",
+      "const b = 2 // @demo-v2 remove-line",
+      "<!-- @demo remove-curent-line -->",
+      "// @demo replace-next-line const c = 3",
+    ].join("\n")
+
+    expect(lintMarkup(contents, "@demo")).toEqual([
+      `"@demo remove-blok-start" on line 1 isn't a markup comment. Did you mean "@demo remove-block-start"?`,
+      `"@demo remove-current-line:a" on line 2 has a label, but only block comments take one.`,
+      `"@demo remove-next-line" on line 3 isn't followed by a line of code, so it won't remove anything.`,
+      `"@demo remove-curent-line" on line 6 isn't a markup comment. Did you mean "@demo remove-current-line"?`,
+      `"@demo replace-next-line" on line 7 isn't followed by a line of code to replace.`,
+    ])
+  })
+
+  it("should report blocks that don't pair up", () => {
+    expect(lintMarkup("// @mst remove-block-start\nconst a = 1\n", "@mst")).toEqual([
+      `"@mst remove-block-start" on line 1 has no matching end.`,
+    ])
+    expect(lintMarkup("// @mst replace-block-start\nconst a = 1\n", "@mst")).toEqual([
+      `"@mst replace-block-start" on line 1 has no "@mst replace-block-with" after it.`,
+    ])
+  })
+
+  it("should report sidecar files that don't say which file they replace", () => {
+    expect(lintMarkup("// @mst add-file-when-removed\nexport {}\n", "@mst")).toEqual([
+      `"@mst add-file-when-removed" on line 1 needs the path of the file it takes the place of.`,
+    ])
+    expect(lintMarkup("// @mst add-file-when-removed ./index.ts\nexport {}\n", "@mst")).toEqual([])
+  })
+
+  describe("lintJsonMarkup", () => {
+    const tempPath = useTempDir()
+
+    beforeEach(() => {
+      filesystem.write(tempPath("app.json"), {
+        expo: { plugins: ["expo-localization"] },
+      })
+    })
+
+    it("should report JSON paths that aren't in their files", () => {
+      filesystem.write(tempPath("ignite", "markup.json"), {
+        "@demo": {
+          "app.json": ["expo.plugins.expo-localization", "expo.plugins.expo-font", "expo..name"],
+          "eas.json": ["build"],
+        },
+      })
+      const path = tempPath("ignite", "markup.json")
+
+      expect(lintJsonMarkup(tempPath())).toEqual([
+        { path, message: `"@demo" lists "expo.plugins.expo-font" in app.json, which isn't there.` },
+        {
+          path,
+          message: `"@demo" lists "expo..name" in app.json. "expo..name" isn't a valid JSON path.`,
+        },
+        { path, message: `"@demo" lists eas.json, which isn't there.` },
+      ])
+    })
+
+    it("should report an ignite/markup.json that doesn't parse", () => {
+      filesystem.write(tempPath("ignite", "markup.json"), "{")
+
+      expect(lintJsonMarkup(tempPath())).toEqual([
+        {
+          path: tempPath("ignite", "markup.json"),
+          message: expect.stringContaining("Couldn't parse ignite/markup.json."),
+        },
+      ])
+    })
+  })
+})
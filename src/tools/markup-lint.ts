@@ -0,0 +1,259 @@
+import { spawnSync } from "child_process"
+import { filesystem } from "gluegun"
+import * as os from "os"
+import * as pathlib from "path"
+import { findFeatureDirectories, readFeatures, resolveFeature } from "./features"
+import {
+  JSON_MARKUP_FILE,
+  JsonMarkup,
+  readJsonMarkup,
+  removeJsonPaths,
+  updateJsonFiles,
+} from "./json-markup"
+import {
+  findFiles,
+  markupComment,
+  MarkupComments,
+  removeBlocks,
+  removeEmptyDirs,
+  replaceBlocks,
+  updateFiles,
+} from "./markup"
+
+/** A markup comment that won't do what it's meant to, e.g. a typo in its name */
+export type MarkupProblem = { path: string; message: string }
+
+/** The type errors in the app left after removing some features and keeping the rest */
+export type MarkupTypecheck = { removed: string[]; kept: string[]; errors: string[] }
+
+const markupNames = Object.keys(MarkupComments).map((key) => MarkupComments[key] as string)
+const blockNames: string[] = [MarkupComments.RemoveBlockStart, MarkupComments.RemoveBlockEnd]
+
+// the number of single-character edits between two strings, to suggest fixes for typos
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return row[b.length]
+}
+
+/**
+ * Checks a file's markup comments for one prefix: unknown comment names, labels on anything
+ * but blocks, `remove-next-line` and `replace-next-line` without a line to work on,
+ * `add-file-when-removed` without a path, and blocks that don't pair up.
+ * @returns a message for each problem, naming its line
+ */
+export function lintMarkup(contents: string, markupPrefix: string): string[] {
+  const problems: string[] = []
+  const lines = contents.split("\n")
+  const markerRegex = new RegExp(
+    `(?:\\/\\/|#|\\/\\*|<!--)\\s*(${markupPrefix}(?![\\w-])\\s*([\\w-]*)(?::([\\w-]*))?)`,
+    "g",
+  )
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    const nextLine = lines[index + 1]
+
+    let match: RegExpExecArray | null
+    while ((match = markerRegex.exec(line))) {
+      const [, marker, name, label] = match
+      const at = `"${marker}" on line ${lineNumber}`
+
+      if (!markupNames.includes(name)) {
+        const closest = markupNames
+          .map((known) => ({ known, distance: editDistance(name, known) }))
+          .sort((a, b) => a.distance - b.distance)[0]
+        const suggestion =
+          name && closest.distance <= 3
+            ? ` Did you mean "${markupComment(markupPrefix, closest.known as MarkupComments)}"?`
+            : ""
+        problems.push(`${at} isn't a markup comment.${suggestion}`)
+      } else if (label !== undefined && !blockNames.includes(name)) {
+        problems.push(`${at} has a label, but only block comments take one.`)
+      } else if (label === "") {
+        problems.push(`${at} has an empty label.`)
+      } else if (name === MarkupComments.RemoveNextLine && !nextLine?.trim()) {
+        problems.push(`${at} isn't followed by a line of code, so it won't remove anything.`)
+      } else if (name === MarkupComments.ReplaceNextLine && !nextLine?.trim()) {
+        problems.push(`${at} isn't followed by a line of code to replace.`)
+      } else if (
+        name === MarkupComments.AddFileWhenRemoved &&
+        !line
+          .slice(match.index + match[0].length)
+          .replace(/(-->|\*\/\}?)\s*$/, "")
+          .trim()
+      ) {
+        problems.push(`${at} needs the path of the file it takes the place of.`)
+      }
+    }
+  })
+
+  try {
+    removeBlocks(contents, {
+      start: markupComment(markupPrefix, MarkupComments.RemoveBlockStart),
+      end: markupComment(markupPrefix, MarkupComments.RemoveBlockEnd),
+    })
+  } catch (e) {
+    problems.push(e.message)
+  }
+  try {
+    replaceBlocks(contents, {
+      start: markupComment(markupPrefix, MarkupComments.ReplaceBlockStart),
+      with: markupComment(markupPrefix, MarkupComments.ReplaceBlockWith),
+      end: markupComment(markupPrefix, MarkupComments.ReplaceBlockEnd),
+    })
+  } catch (e) {
+    problems.push(e.message)
+  }
+
+  return problems
+}
+
+/**
+ * Checks that ignite/markup.json parses and that every JSON path it lists is in its file,
+ * so nothing is left behind when the feature is removed.
+ */
+export function lintJsonMarkup(targetDir: string): MarkupProblem[] {
+  const path = pathlib.join(targetDir, JSON_MARKUP_FILE)
+  let markup: JsonMarkup
+  try {
+    markup = readJsonMarkup(targetDir)
+  } catch (e) {
+    return [{ path, message: e.message }]
+  }
+
+  const problems: MarkupProblem[] = []
+  Object.keys(markup).forEach((prefix) => {
+    Object.keys(markup[prefix]).forEach((file) => {
+      const contents = filesystem.read(pathlib.join(targetDir, file))
+      if (contents === undefined) {
+        problems.push({ path, message: `"${prefix}" lists ${file}, which isn't there.` })
+        return
+      }
+      markup[prefix][file].forEach((jsonPath) => {
+        try {
+          if (removeJsonPaths(JSON.parse(contents), [jsonPath]).length === 0) {
+            problems.push({
+              path,
+              message: `"${prefix}" lists "${jsonPath}" in ${file}, which isn't there.`,
+            })
+          }
+        } catch (e) {
+          problems.push({
+            path,
+            message: `"${prefix}" lists "${jsonPath}" in ${file}. ${e.message}`,
+          })
+        }
+      })
+    })
+  })
+  return problems
+}
+
+/**
+ * Lints the markup for each prefix in every file `findFiles` finds in a folder,
+ * and the JSON markup in ignite/markup.json.
+ */
+export function lintMarkupFiles(targetDir: string, markupPrefixes: string[]): MarkupProblem[] {
+  const problems: MarkupProblem[] = []
+  findFiles(targetDir)
+    .sort()
+    .forEach((path) => {
+      const contents = filesystem.read(path)
+      markupPrefixes.forEach((markupPrefix) => {
+        if (!contents?.includes(markupPrefix)) return
+        lintMarkup(contents, markupPrefix).forEach((message) => problems.push({ path, message }))
+      })
+    })
+  return problems.concat(lintJsonMarkup(targetDir))
+}
+
+/**
+ * Copies a project without its node_modules and removes some features from the copy, keeping
+ * the code of the rest, the way `ignite new` does.
+ */
+async function renderFeatures(
+  sourceDir: string,
+  targetDir: string,
+  features: { name: string; removed: boolean }[],
+) {
+  findFiles(sourceDir).forEach((path) => {
+    filesystem.copy(path, pathlib.join(targetDir, pathlib.relative(sourceDir, path)))
+  })
+
+  for (const { name, removed } of features) {
+    const feature = resolveFeature(name, readFeatures(sourceDir))
+    await updateFiles({
+      filePaths: findFiles(targetDir),
+      markupPrefix: feature.markupPrefix,
+      removeMarkupOnly: !removed,
+      dryRun: false,
+      quiet: true,
+    })
+    await updateJsonFiles({
+      targetDir,
+      markupPrefix: feature.markupPrefix,
+      removeMarkupOnly: !removed,
+      dryRun: false,
+    })
+    if (removed) findFeatureDirectories(feature, targetDir).forEach((dir) => filesystem.remove(dir))
+  }
+  removeEmptyDirs({ targetDir, dryRun: false })
+}
+
+/**
+ * Type-checks every combination of removing and keeping the features, e.g. demo × mst, using
+ * the project's own TypeScript, so markup that breaks the app is caught before it ships.
+ * Needs the project's dependencies installed.
+ */
+export async function typecheckFeatureCombinations(
+  sourceDir: string,
+  featureNames: string[],
+  options: { onCombination?: (removed: string[]) => void } = {},
+): Promise<MarkupTypecheck[]> {
+  const tsc = filesystem.path(sourceDir, "node_modules", ".bin", "tsc")
+  if (!filesystem.exists(tsc)) {
+    throw new Error(`Couldn't find TypeScript in ${sourceDir}. Install its dependencies first.`)
+  }
+
+  const tempPath = filesystem.path(os.tmpdir(), `ignite-markup-lint-${Date.now()}`)
+  const results: MarkupTypecheck[] = []
+  try {
+    // each bit of the combination number says whether one feature is removed
+    for (let combination = 0; combination < 2 ** featureNames.length; combination++) {
+      const features = featureNames.map((name, i) => ({
+        name,
+        removed: !!(combination & (1 << i)),
+      }))
+      const removed = features.filter((f) => f.removed).map((f) => f.name)
+      const kept = features.filter((f) => !f.removed).map((f) => f.name)
+      options.onCombination?.(removed)
+
+      const targetDir = filesystem.path(tempPath, `${combination}`)
+      await renderFeatures(sourceDir, targetDir, features)
+      filesystem.symlink(filesystem.path(sourceDir, "node_modules"), `${targetDir}/node_modules`)
+
+      // an argument list, so paths with spaces in them get through
+      const result = spawnSync(tsc, ["--noEmit", "--pretty", "false", "-p", targetDir], {
+        cwd: targetDir,
+        encoding: "utf8",
+      })
+      if (result.error) throw result.error
+      const errors = `${result.stdout}${result.stderr}`
+        .split("\n")
+        .filter((line) => line.includes("error TS"))
+      results.push({ removed, kept, errors })
+    }
+  } finally {
+    filesystem.remove(tempPath)
+  }
+  return results
+}
@@ -1,10 +1,18 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
 import {
+  findFiles,
   MarkupComments,
   markupComment,
+  markupRegex,
   removeBlocks,
   removeCurrentLine,
   removeNextLine,
+  replaceBlocks,
+  replaceNextLine,
+  summarizeUpdateResults,
   updateFile,
+  updateFiles,
 } from "./markup"
 
 const TEST_MARKUP_PREFIX = "@test"
@@ -285,6 +293,168 @@ describe("markup", () => {
       expect(result).not.toContain(startComment)
       expect(result).not.toContain(endComment)
     })
+    it("should remove nested and labelled blocks as a whole", () => {
+      const comment = {
+        start: markupComment(TEST_MARKUP_PREFIX, MarkupComments.RemoveBlockStart),
+        end: markupComment(TEST_MARKUP_PREFIX, MarkupComments.RemoveBlockEnd),
+      }
+      const contents = [
+        `import { App } from "./app"`,
+        `// ${comment.start}:auth`,
+        `import { Login } from "./login"`,
+        `// ${comment.start}`,
+        `import { Demo } from "./demo" // @mst remove-current-line`,
+        `// ${comment.end}`,
+        `import { Logout } from "./logout"`,
+        `// ${comment.end}:auth`,
+        `export { App }`,
+      ].join("\n")
+
+      expect(removeBlocks(contents, comment)).toBe(`import { App } from "./app"\nexport { App }`)
+    })
+
+    it("should report markers that don't pair up", () => {
+      const comment = {
+        start: markupComment(TEST_MARKUP_PREFIX, MarkupComments.RemoveBlockStart),
+        end: markupComment(TEST_MARKUP_PREFIX, MarkupComments.RemoveBlockEnd),
+      }
+
+      expect(() => removeBlocks(`// ${comment.start}\nconst a = 1`, comment)).toThrow(
+        `"@test remove-block-start" on line 1 has no matching end.`,
+      )
+      expect(() => removeBlocks(`const a = 1\n// ${comment.end}`, comment)).toThrow(
+        `"@test remove-block-end" on line 2 has no matching start.`,
+      )
+      expect(() =>
+        removeBlocks(`// ${comment.start}:auth\n\n// ${comment.end}:demo`, comment),
+      ).toThrow(
+        `"@test remove-block-end:demo" on line 3 doesn't match "@test remove-block-start:auth" on line 1.`,
+      )
+    })
+  })
+
+  describe("replaceBlocks", () => {
+    const comment = {
+      start: markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockStart),
+      with: markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockWith),
+      end: markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockEnd),
+    }
+    const contents = [
+      "function App() {",
+      `  // ${comment.start}`,
+      "  const { rehydrated } = useInitialRootStore(() => {",
+      "    hideSplashScreen()",
+      "  })",
+      `  // ${comment.with}`,
+      "  // useEffect(() => {",
+      "  //   hideSplashScreen()",
+      "  // }, [])",
+      `  // ${comment.end}`,
+      "  return (",
+      `    // ${comment.start}`,
+      "    <Store />",
+      `    // ${comment.with}`,
+      "    {/* <NoStore /> */}",
+      `    // ${comment.end}`,
+      "  )",
+      "}",
+    ].join("\n")
+
+    it("should swap the code for the uncommented replacement", () => {
+      expect(replaceBlocks(contents, comment)).toBe(
+        [
+          "function App() {",
+          "  useEffect(() => {",
+          "    hideSplashScreen()",
+          "  }, [])",
+          "  return (",
+          "    <NoStore />",
+          "  )",
+          "}",
+        ].join("\n"),
+      )
+    })
+
+    it("should keep the code and drop the replacement when only removing markup", () => {
+      expect(replaceBlocks(contents, comment, true)).toBe(
+        [
+          "function App() {",
+          "  const { rehydrated } = useInitialRootStore(() => {",
+          "    hideSplashScreen()",
+          "  })",
+          "  return (",
+          "    <Store />",
+          "  )",
+          "}",
+        ].join("\n"),
+      )
+    })
+
+    it("should report comments that are missing or out of order", () => {
+      expect(() => replaceBlocks(`// ${comment.start}\na()\n// ${comment.end}`, comment)).toThrow(
+        `"@test replace-block-end" on line 3 has no "@test replace-block-with" before it.`,
+      )
+      expect(() => replaceBlocks(`// ${comment.start}\na()\n// ${comment.with}`, comment)).toThrow(
+        `"@test replace-block-start" on line 1 has no "@test replace-block-end" after it.`,
+      )
+    })
+  })
+
+  describe("replaceBlocks in XML", () => {
+    it("should uncomment XML replacement lines", () => {
+      const start = markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockStart)
+      const withComment = markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockWith)
+      const end = markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceBlockEnd)
+      const contents = [
+        `  <!-- ${start} -->`,
+        `  <key>NSCameraUsageDescription</key>`,
+        `  <!-- ${withComment} -->`,
+        `  <!-- <key>NSPhotoLibraryUsageDescription</key> -->`,
+        `  <!-- ${end} -->`,
+      ].join("\n")
+
+      expect(replaceBlocks(contents, { start, with: withComment, end })).toBe(
+        "  <key>NSPhotoLibraryUsageDescription</key>",
+      )
+    })
+  })
+
+  describe("updateFiles", () => {
+    const tempPath = useTempDir()
+    const sidecar = markupComment(TEST_MARKUP_PREFIX, MarkupComments.AddFileWhenRemoved)
+
+    beforeEach(() => {
+      filesystem.write(
+        tempPath("models", "index.ts"),
+        `export * from "./RootStore" // ${TEST_MARKUP_PREFIX} remove-file\n`,
+      )
+      filesystem.write(
+        tempPath("models", "index.removed.ts"),
+        `// ${sidecar} ./index.ts\nexport const models = []\n`,
+      )
+    })
+
+    it("should put a sidecar file in the place of the removed one", async () => {
+      const filePaths = findFiles(tempPath())
+      await updateFiles({ filePaths, markupPrefix: TEST_MARKUP_PREFIX, dryRun: false, quiet: true })
+
+      expect(findFiles(tempPath())).toEqual([tempPath("models", "index.ts")])
+      expect(filesystem.read(tempPath("models", "index.ts"))).toBe("export const models = []\n")
+    })
+
+    it("should drop the sidecar file when only removing markup", async () => {
+      const filePaths = findFiles(tempPath())
+      await updateFiles({
+        filePaths,
+        markupPrefix: TEST_MARKUP_PREFIX,
+        dryRun: false,
+        removeMarkupOnly: true,
+        quiet: true,
+      })
+
+      expect(findFiles(tempPath())).toEqual([tempPath("models", "index.ts")])
+      expect(filesystem.read(tempPath("models", "index.ts"))).toBe(`export * from "./RootStore" \n`)
+    })
   })
 
   describe("remove", () => {
@@ -324,6 +494,62 @@ describe("markup", () => {
       expect(result).not.toContain(") : (")
     })
   })
+
+  describe("markupRegex", () => {
+    it("should only match comments for that exact prefix", () => {
+      const contents = [
+        "track() // @api remove-current-line",
+        "trackV2() // @api-v2 remove-current-line",
+        "{/* @api remove-current-line */}",
+      ].join("\n")
+
+      expect(contents.replace(markupRegex("@api"), "")).toBe(
+        "track() \ntrackV2() // @api-v2 remove-current-line\n",
+      )
+    })
+
+    it("should match XML comments", () => {
+      const contents = `<string>HelloWorld</string> <!-- @api remove-current-line --> <!-- note -->`
+      expect(contents.replace(markupRegex("@api"), "")).toBe(
+        "<string>HelloWorld</string>  <!-- note -->",
+      )
+    })
+  })
+
+  describe("replaceNextLine", () => {
+    it("should keep the comment's indentation, for YAML and XML", () => {
+      const comment = markupComment(TEST_MARKUP_PREFIX, MarkupComments.ReplaceNextLine)
+      const contents = [
+        "- launchApp:",
+        `    # ${comment} appId: com.example`,
+        "    appId: com.helloworld",
+        `  <!-- ${comment} <string>Example</string> -->`,
+        "  <string>HelloWorld</string>",
+      ].join("\n")
+
+      expect(replaceNextLine(contents, comment)).toBe(
+        [
+          "- launchApp:",
+          `    # ${comment} appId: com.example`,
+          "    appId: com.example",
+          `  <!-- ${comment} <string>Example</string> -->`,
+          "  <string>Example</string>",
+        ].join("\n"),
+      )
+    })
+  })
+
+  describe("summarizeUpdateResults", () => {
+    it("should list files that had markup and the reasons any files failed", () => {
+      const { files, errors } = summarizeUpdateResults([
+        { status: "fulfilled", value: { path: "app/app.tsx", comments: ["// @demo remove-file"] } },
+        { status: "fulfilled", value: { path: "app/index.tsx", comments: [] } },
+        { status: "rejected", reason: new Error("EACCES: permission denied") },
+      ])
+      expect(files).toEqual([{ path: "app/app.tsx", comments: ["// @demo remove-file"] }])
+      expect(errors).toEqual(["Error: EACCES: permission denied"])
+    })
+  })
 })
 
 const WelcomeScreen = /* jsx */ `
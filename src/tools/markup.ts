@@ -1,5 +1,6 @@
 import { filesystem, patching } from "gluegun"
 import * as pathlib from "path"
+import { jsonOutput } from "./pretty"
 
 // all possible comment types
 export enum MarkupComments {
@@ -9,15 +10,23 @@ export enum MarkupComments {
   RemoveBlockEnd = "remove-block-end",
   RemoveFile = "remove-file",
   ReplaceNextLine = "replace-next-line",
+  ReplaceBlockStart = "replace-block-start",
+  ReplaceBlockWith = "replace-block-with",
+  ReplaceBlockEnd = "replace-block-end",
+  AddFileWhenRemoved = "add-file-when-removed",
 }
 
 // markup comments follow format:
 // // @prefix ActionName
+// or, in files without `//` or `#` comments, like XML and plists:
+// <!-- @prefix ActionName -->
 export const markupComment = (prefix: string, commentType: MarkupComments) =>
   `${prefix} ${commentType}`
 
 export const markupRegex = (prefix: string) => {
-  const pattern = `(\\/\\/|#)\\s*${prefix}.*|{?\\/.*${prefix}.*\\/}?`
+  // so removing @api doesn't also strip @api-v2 comments
+  const name = `${prefix}(?![\\w-])`
+  const pattern = `<!--\\s*${name}.*?-->|(\\/\\/|#)\\s*${name}.*|{?\\/.*${name}.*\\/}?`
   return new RegExp(pattern, "gm")
 }
 
@@ -59,14 +68,19 @@ export function removeNextLine(contents: string, comment: string): string {
  * Take the file content as a string and replace the current line
  * of code with the contents of the REPLACE_NEXT_LINE comment before it
  * example: // @prefix replace-next-line const newLine = "new line"
+ * The new line keeps the comment's indentation, which YAML and XML files depend on.
  */
 export function replaceNextLine(contents: string, comment: string): string {
   const lines = contents.split("\n")
   const result = lines.map((line, index) => {
     const prevLine = lines[index - 1]
     if (prevLine?.includes(comment)) {
-      const newLineContent = prevLine.replace("//", "").replace(comment, "").trim()
-      return newLineContent
+      const indentation = prevLine.match(/^\s*/)[0]
+      const newLineContent = prevLine
+        .slice(prevLine.indexOf(comment) + comment.length)
+        .replace(/\s*(-->|\*\/\}?)\s*$/, "")
+        .trim()
+      return indentation + newLineContent
     } else {
       return line
     }
@@ -76,36 +90,122 @@ export function replaceNextLine(contents: string, comment: string): string {
 
 /**
  * Take the file content as a string and remove the lines of code between
- * start and end block comments
+ * start and end block comments. Blocks can be nested, and labelled to pair them up explicitly:
+ * `// @demo remove-block-start:auth` ... `// @demo remove-block-end:auth`
+ * @throws if a start and end don't pair up, with the line numbers of the markers
  */
 export function removeBlocks(contents: string, comment: { start: string; end: string }): string {
   const { start, end } = comment
   const lines = contents.split("\n")
 
-  const findIndex = (l: typeof lines, c: typeof start | typeof end) =>
-    l.findIndex((line) => line.includes(c))
-  const NOT_FOUND = -1
+  // the comment, then an optional `:label`
+  const markerRegex = (c: string) =>
+    new RegExp(`${c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?::([\\w-]+))?(?![\\w-])`)
+  const startRegex = markerRegex(start)
+  const endRegex = markerRegex(end)
+  const marker = (c: string, label?: string) => `"${label ? `${c}:${label}` : c}"`
+
+  const openBlocks: { line: number; label?: string }[] = []
+  const keptLines = lines.filter((line, index) => {
+    const lineNumber = index + 1
+    const startMatch = line.match(startRegex)
+    const endMatch = line.match(endRegex)
+
+    if (startMatch) {
+      openBlocks.push({ line: lineNumber, label: startMatch[1] })
+      return false
+    }
+
+    if (endMatch) {
+      const block = openBlocks.pop()
+      const endMarker = marker(end, endMatch[1])
+      if (!block) {
+        throw new Error(`${endMarker} on line ${lineNumber} has no matching start.`)
+      }
+      if (block.label !== endMatch[1]) {
+        throw new Error(
+          `${endMarker} on line ${lineNumber} doesn't match ${marker(start, block.label)} on line ${block.line}.`,
+        )
+      }
+      return false
+    }
 
-  const blockStartIndex = findIndex(lines, start)
-  const blockEndIndex = findIndex(lines, end)
-  const blockExists = findIndex(lines, start) !== NOT_FOUND && blockEndIndex !== NOT_FOUND
+    // keep only the lines outside every block
+    return openBlocks.length === 0
+  })
 
-  if (blockExists) {
-    const blockLength = blockEndIndex - blockStartIndex + 1
-    lines.splice(blockStartIndex, blockLength) // mutates `lines`
+  const unclosed = openBlocks.pop()
+  if (unclosed) {
+    throw new Error(
+      `${marker(start, unclosed.label)} on line ${unclosed.line} has no matching end.`,
+    )
   }
 
-  const updateContents = lines.join("\n")
+  return keptLines.join("\n")
+}
+
+/**
+ * Take the file content as a string and swap the lines of code between the start and with
+ * comments for the commented-out lines between the with and end comments, uncommenting them.
+ * With `keepOriginal`, keep the code and drop the commented-out replacement instead.
+ * @throws if the comments are missing or out of order, with the line numbers
+ */
+export function replaceBlocks(
+  contents: string,
+  comment: { start: string; with: string; end: string },
+  keepOriginal = false,
+): string {
+  const lines = contents.split("\n")
+  const uncomment = (line: string) =>
+    line
+      .replace(/^(\s*)\{\/\*\s?(.*?)\s?\*\/\}\s*$/, "$1$2")
+      .replace(/^(\s*)<!--\s?(.*?)\s?-->\s*$/, "$1$2")
+      .replace(/^(\s*)(\/\/|#) ?/, "$1")
+
+  let section: "original" | "replacement" | undefined
+  let startLine = 0
+  const keptLines: string[] = []
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    const at = (c: string) => `"${c}" on line ${lineNumber}`
+
+    if (line.includes(comment.start)) {
+      if (section) {
+        throw new Error(`${at(comment.start)} is inside the block started on line ${startLine}.`)
+      }
+      section = "original"
+      startLine = lineNumber
+    } else if (line.includes(comment.with)) {
+      if (section !== "original") {
+        throw new Error(`${at(comment.with)} has no "${comment.start}" before it.`)
+      }
+      section = "replacement"
+    } else if (line.includes(comment.end)) {
+      if (section !== "replacement") {
+        throw new Error(`${at(comment.end)} has no "${comment.with}" before it.`)
+      }
+      section = undefined
+    } else if (!section || (section === "original" && keepOriginal)) {
+      keptLines.push(line)
+    } else if (section === "replacement" && !keepOriginal) {
+      keptLines.push(uncomment(line))
+    }
+  })
 
-  const anotherBlockExists =
-    findIndex(lines, start) !== NOT_FOUND && findIndex(lines, end) !== NOT_FOUND
-  if (anotherBlockExists) {
-    return removeBlocks(updateContents, comment)
+  if (section) {
+    const missing = section === "original" ? comment.with : comment.end
+    throw new Error(`"${comment.start}" on line ${startLine} has no "${missing}" after it.`)
   }
 
-  return updateContents
+  return keptLines.join("\n")
 }
 
+const replaceBlockComments = (markupPrefix: string) => ({
+  start: markupComment(markupPrefix, MarkupComments.ReplaceBlockStart),
+  with: markupComment(markupPrefix, MarkupComments.ReplaceBlockWith),
+  end: markupComment(markupPrefix, MarkupComments.ReplaceBlockEnd),
+})
+
 /**
  * Perform all operations possible in a file
  * @param contents The file contents as a string
@@ -117,6 +217,7 @@ export function updateFile(contents: string, markupPrefix: string): string {
     start: markupComment(markupPrefix, MarkupComments.RemoveBlockStart),
     end: markupComment(markupPrefix, MarkupComments.RemoveBlockEnd),
   })
+  result = replaceBlocks(result, replaceBlockComments(markupPrefix))
   result = removeCurrentLine(result, markupComment(markupPrefix, MarkupComments.RemoveCurrentLine))
   result = removeNextLine(result, markupComment(markupPrefix, MarkupComments.RemoveNextLine))
   result = replaceNextLine(result, markupComment(markupPrefix, MarkupComments.ReplaceNextLine))
@@ -215,81 +316,154 @@ export async function deleteFiles({
   return commentResults
 }
 
+async function findFilesWith(filePaths: string[], comment: string) {
+  const results = await Promise.all(
+    filePaths.map(async (path) => ((await patching.exists(path, comment)) ? path : undefined)),
+  )
+  return results.filter(Boolean)
+}
+
+/**
+ * Finds the files that `updateFiles` would remove for a markup prefix, without touching them
+ */
+export async function findFilesToRemove({
+  filePaths,
+  markupPrefix,
+}: {
+  filePaths: string[]
+  markupPrefix: string
+}) {
+  return findFilesWith(filePaths, markupComment(markupPrefix, MarkupComments.RemoveFile))
+}
+
 export async function updateFiles({
   filePaths,
   markupPrefix,
   dryRun = true,
   removeMarkupOnly = false,
+  quiet = false,
 }: {
   filePaths: string[]
   markupPrefix: string
   dryRun?: boolean
   removeMarkupOnly?: boolean
+  /** don't log the files being removed */
+  quiet?: boolean
 }) {
   const sanitize = (contents: string) => {
     return contents.replace(markupRegex(markupPrefix), "")
   }
 
+  // files that take the place of removed ones go last, so they can't be removed in their turn
+  const sidecarComment = markupComment(markupPrefix, MarkupComments.AddFileWhenRemoved)
+  const sidecarPaths = await findFilesWith(filePaths, sidecarComment)
+
   // Go through every file path and handle the operation for each comment
   const commentResults = await Promise.allSettled(
-    filePaths.map(async (path) => {
-      const { exists, update } = patching
-      const { read } = filesystem
-
-      const comments: string[] = []
-
-      // remove files first
-      if (await exists(path, markupComment(markupPrefix, MarkupComments.RemoveFile))) {
-        console.log("removing file", path)
-        if (!dryRun) {
-          if (removeMarkupOnly) {
-            const contents = read(path)
-            const sanitized = sanitize(contents)
-            filesystem.write(path, sanitized)
-          } else {
-            filesystem.remove(path)
+    filePaths
+      .filter((path) => !sidecarPaths.includes(path))
+      .map(async (path) => {
+        const { exists } = patching
+        const { read } = filesystem
+
+        const comments: string[] = []
+
+        // remove files first
+        if (await exists(path, markupComment(markupPrefix, MarkupComments.RemoveFile))) {
+          if (!quiet && !jsonOutput.isEnabled()) console.log("removing file", path)
+          if (!dryRun) {
+            if (removeMarkupOnly) {
+              const contents = read(path)
+              const sanitized = sanitize(contents)
+              filesystem.write(path, sanitized)
+            } else {
+              filesystem.remove(path)
+            }
           }
+          comments.push(MarkupComments.RemoveFile)
+          return { path, comments }
         }
-        comments.push(MarkupComments.RemoveFile)
-        return { path, comments }
-      }
-
-      // filter out RemoveFile (weve already handled it above)
-      // and create a regex for the remaining comment types
-      const operationComments = Object.keys(MarkupComments)
-        .filter((key) => MarkupComments[key] !== MarkupComments.RemoveFile)
-        .map((key) => markupComment(markupPrefix, MarkupComments[key]))
 
-      const shouldUpdate = removeMarkupOnly
-        ? markupRegex(markupPrefix)
-        : RegExp(operationComments.join("|"), "g")
+        // filter out RemoveFile (weve already handled it above)
+        // and create a regex for the remaining comment types
+        const operationComments = Object.keys(MarkupComments)
+          .filter((key) => MarkupComments[key] !== MarkupComments.RemoveFile)
+          .map((key) => markupComment(markupPrefix, MarkupComments[key]))
 
-      if (await exists(path, shouldUpdate)) {
-        const before = read(path)
+        const shouldUpdate = removeMarkupOnly
+          ? markupRegex(markupPrefix)
+          : RegExp(operationComments.join("|"), "g")
 
-        operationComments.forEach((operation) => {
-          if (before.includes(operation)) {
-            comments.push(operation)
-          }
-        })
+        if (await exists(path, shouldUpdate)) {
+          const before = read(path)
 
-        if (!dryRun) {
-          await update(path, (contents: string) => {
-            let result = contents
-            if (removeMarkupOnly) {
-              result = sanitize(result)
-            } else {
-              result = updateFile(result, markupPrefix)
-              result = sanitize(result)
+          operationComments.forEach((operation) => {
+            if (before.includes(operation)) {
+              comments.push(operation)
             }
-            return result
           })
+
+          // worked out on dry runs too, so unbalanced blocks are reported either way
+          let after: string
+          try {
+            after = removeMarkupOnly
+              ? sanitize(replaceBlocks(before, replaceBlockComments(markupPrefix), true))
+              : sanitize(updateFile(before, markupPrefix))
+          } catch (e) {
+            throw new Error(`${path}: ${e.message}`)
+          }
+
+          if (!dryRun) filesystem.write(path, after)
         }
+
+        return { path, comments }
+      }),
+  )
+
+  const sidecarResults = await Promise.allSettled(
+    sidecarPaths.map(async (path) => {
+      const contents = filesystem.read(path)
+      const markerLine = contents.split("\n").find((line) => line.includes(sidecarComment))
+      const target = markerLine
+        .slice(markerLine.indexOf(sidecarComment) + sidecarComment.length)
+        .replace(/(-->|\*\/\}?)\s*$/, "")
+        .trim()
+      if (!target) {
+        throw new Error(`${path}: "${sidecarComment}" needs the path of the file it replaces.`)
       }
+      const targetPath = pathlib.resolve(pathlib.dirname(path), target)
 
-      return { path, comments }
+      if (!quiet && !jsonOutput.isEnabled()) {
+        if (removeMarkupOnly) console.log("removing file", path)
+        else console.log("adding file", targetPath)
+      }
+      if (!dryRun) {
+        if (!removeMarkupOnly) {
+          const withoutMarker = removeCurrentLine(contents, sidecarComment)
+          filesystem.write(targetPath, sanitize(updateFile(withoutMarker, markupPrefix)))
+        }
+        filesystem.remove(path)
+      }
+      return { path, comments: [sidecarComment] }
     }),
   )
 
-  return commentResults
+  return [...commentResults, ...sidecarResults]
+}
+
+/**
+ * Splits `updateFiles` results into the files that had markup and the reasons any files failed,
+ * for reporting (e.g. `--json` output)
+ */
+export function summarizeUpdateResults(results: Awaited<ReturnType<typeof updateFiles>>) {
+  const files: { path: string; comments: string[] }[] = []
+  const errors: string[] = []
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      errors.push(String(result.reason))
+    } else if (result.value.comments.length > 0) {
+      files.push(result.value)
+    }
+  })
+  return { files, errors }
 }
@@ -0,0 +1,163 @@
+import {
+  generateOpenApiCode,
+  OpenApiDocument,
+  openApiModels,
+  openApiOperations,
+  parseOpenApi,
+  removeOpenApiCode,
+} from "./openapi"
+
+const doc = parseOpenApi(`
+openapi: 3.0.3
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List all pets
+      parameters:
+        - { name: limit, in: query, schema: { type: integer } }
+      responses:
+        "200":
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+  /pets/{petId}:
+    delete:
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: string } }
+      responses:
+        "204": { description: Deleted }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id]
+      properties:
+        id: { type: string }
+        tag: { type: string, nullable: true }
+`)
+
+const api = `import { ApisauceInstance, create } from "apisauce"
+import type { ApiConfig } from "./api.types"
+
+export class Api {
+  apisauce: ApisauceInstance
+
+  async getEpisodes() {
+    return []
+  }
+}
+`
+
+describe("openapi", () => {
+  it("should only accept OpenAPI 3 documents", () => {
+    expect(() => parseOpenApi(`swagger: "2.0"`, "swagger.yaml")).toThrow(
+      "swagger.yaml isn't an OpenAPI 3 document. It looks like Swagger 2.0",
+    )
+  })
+
+  it("should name the $ref it can't resolve, or that refers back to itself", () => {
+    const withRef = (parameters: string, components: string) =>
+      parseOpenApi(`
+openapi: 3.0.3
+paths:
+  /pets:
+    get:
+      parameters: [{ $ref: "${parameters}" }]
+components:
+  parameters:
+    ${components}
+`)
+
+    expect(() =>
+      openApiOperations(withRef("#/components/parameters/Limit", "Offset: { name: offset }")),
+    ).toThrow(`Couldn't resolve the $ref "#/components/parameters/Limit".`)
+    expect(() =>
+      openApiOperations(
+        withRef(
+          "#/components/parameters/Limit",
+          `Limit: { $ref: "#/components/parameters/Limit" }`,
+        ),
+      ),
+    ).toThrow(`The $ref "#/components/parameters/Limit" refers back to itself`)
+  })
+
+  it("should reject operations that would get the same method name", () => {
+    const duplicates = parseOpenApi(`
+openapi: 3.0.3
+paths:
+  /pets:
+    get: { operationId: listPets }
+  /animals:
+    get: { operationId: list-pets }
+`)
+
+    expect(() => openApiOperations(duplicates)).toThrow(
+      "GET /pets and GET /animals would both be the Api method listPets",
+    )
+  })
+
+  it("should generate types and methods, and only replace the generated code when run again", () => {
+    const files = generateOpenApiCode(doc, { api, types: "" }, { source: "openapi.yaml" })
+
+    expect(files.api).toContain(`import { ApisauceInstance, create, ApiResponse } from "apisauce"`)
+    expect(files.api).toContain(
+      `import type { ListPetsQuery, ListPetsResponse } from "./api.types"\n// @openapi generated-end imports`,
+    )
+    expect(files.api).toContain(
+      [
+        "  async listPets(",
+        "    query?: ListPetsQuery,",
+        `  ): Promise<{ kind: "ok"; data: ListPetsResponse } | GeneralApiProblem> {`,
+        `    const response: ApiResponse<ListPetsResponse> = await this.apisauce.get("/pets", query)`,
+      ].join("\n"),
+    )
+    expect(files.api).toContain(
+      '  async deletePetsByPetId(petId: string): Promise<{ kind: "ok" } | GeneralApiProblem> {',
+    )
+    expect(files.types).toContain("export interface Pet {\n  id: string\n  tag?: string | null\n}")
+    expect(files.types).toContain("export type ListPetsResponse = Pet[]")
+
+    const edited = { ...files, api: files.api.replace(/\n}\n/, "\n\n  mine() {}\n}\n") }
+    expect(generateOpenApiCode(doc, edited, { source: "openapi.yaml" })).toEqual(edited)
+
+    const renamed = parseOpenApi(JSON.stringify(doc).replace("listPets", "getPets"))
+    const regenerated = generateOpenApiCode(renamed, edited, { source: "openapi.yaml" })
+    expect(regenerated.api).toContain("async getPets(")
+    expect(regenerated.api).not.toContain("async listPets(")
+    expect(regenerated.api).toContain("  mine() {}\n}")
+
+    expect(removeOpenApiCode(files)).toEqual({ api, types: "", models: undefined })
+  })
+
+  it("should declare models after the models they use", () => {
+    const models = openApiModels({
+      openapi: "3.0.0",
+      components: {
+        schemas: {
+          Owner: {
+            properties: { id: { type: "integer" }, favorite: { $ref: "#/components/schemas/Pet" } },
+            required: ["id"],
+          },
+          Pet: {
+            properties: {
+              owner: { $ref: "#/components/schemas/Owner" },
+              tags: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+      },
+    } as OpenApiDocument)
+
+    expect(models).toContain(`import type * as ApiTypes from "../services/api/api.types"`)
+    expect(models.indexOf("export const PetModel")).toBeLessThan(
+      models.indexOf("export const OwnerModel"),
+    )
+    // Pet's owner is part of a cycle, so it's left as plain data
+    expect(models).toContain("    owner: types.frozen<ApiTypes.Owner>(),")
+    expect(models).toContain("    tags: types.array(types.string),")
+    expect(models).toContain(
+      "    id: types.identifierNumber,\n    favorite: types.maybe(PetModel),",
+    )
+  })
+})
@@ -0,0 +1,585 @@
+import { filesystem, strings } from "gluegun"
+import * as ts from "typescript"
+import * as YAML from "yaml"
+import { applyAstPatch, AstPatch, revertAstPatch } from "./ast-patch"
+import { appDirName } from "./project"
+import { docComment, JsonSchema, modelType, propertyKey, refName, schemaType } from "./json-schema"
+
+export type OpenApiParameter = {
+  $ref?: string
+  name: string
+  in: "path" | "query" | "header" | "cookie"
+  required?: boolean
+  description?: string
+  schema?: JsonSchema
+}
+
+type OpenApiContent = { $ref?: string; content?: Record<string, { schema?: JsonSchema }> }
+
+type OpenApiOperation = {
+  operationId?: string
+  summary?: string
+  description?: string
+  parameters?: OpenApiParameter[]
+  requestBody?: OpenApiContent
+  responses?: Record<string, OpenApiContent>
+}
+
+export type OpenApiDocument = {
+  openapi: string
+  paths?: Record<string, Record<string, OpenApiOperation | OpenApiParameter[]>>
+  components?: {
+    schemas?: Record<string, JsonSchema>
+    parameters?: Record<string, OpenApiParameter>
+    requestBodies?: Record<string, OpenApiContent>
+    responses?: Record<string, OpenApiContent>
+  }
+}
+
+/** An operation as it's turned into an `Api` method */
+export type ApiOperation = {
+  /** the method name, from the `operationId` or else the HTTP method and path */
+  name: string
+  httpMethod: string
+  path: string
+  summary?: string
+  pathParams: { name: string; variable: string; type: string }[]
+  /** the generated query params interface, if the operation has any */
+  query?: { type: string; required: boolean; params: OpenApiParameter[] }
+  /** the generated request body type, if the operation has one */
+  body?: { type: string; schema: JsonSchema }
+  /** the generated response type, unless the response has no JSON body */
+  response?: { type: string; schema: JsonSchema }
+}
+
+export type OpenApiFiles = {
+  api: string
+  types: string
+  /** the contents of the models file, or undefined if there isn't one */
+  models?: string
+}
+
+export type OpenApiResult = {
+  /** the generated `Api` methods */
+  operations: string[]
+  written: string[]
+  updated: string[]
+  removed: string[]
+}
+
+type RegionLabel = "imports" | "methods" | "types" | "models"
+
+const REGION_START = "// @openapi generated-start"
+const REGION_END = "// @openapi generated-end"
+const HTTP_METHODS = ["get", "put", "post", "delete", "patch", "head"]
+const MAX_LINE_LENGTH = 100
+const CLASS_INDENT = "  "
+
+/** `ApiResponse` and the problem helpers the generated methods use, if the demo removed them */
+const API_IMPORTS: AstPatch[] = [
+  { addImport: { from: "apisauce", names: ["ApiResponse"] } },
+  { addImport: { from: "./apiProblem", names: ["GeneralApiProblem", "getGeneralApiProblem"] } },
+]
+
+/**
+ * Parses an OpenAPI 3 document, in YAML or JSON.
+ * @throws if it isn't an OpenAPI 3 document
+ */
+export function parseOpenApi(contents: string, fileName = "the document"): OpenApiDocument {
+  const doc = YAML.parse(contents)
+  if (!doc || typeof doc !== "object" || !/^3\./.test(String(doc.openapi ?? ""))) {
+    const swagger = doc?.swagger ? ` It looks like Swagger ${doc.swagger}; convert it first.` : ""
+    throw new Error(`${fileName} isn't an OpenAPI 3 document.${swagger}`)
+  }
+  return doc
+}
+
+/**
+ * Follows a `$ref` to a parameter, request body or response in `components`
+ * @throws if the `$ref` doesn't point at one, or leads back to itself
+ */
+function resolve<T extends { $ref?: string }>(
+  doc: OpenApiDocument,
+  value: T,
+  seen: string[] = [],
+): T {
+  if (!value?.$ref) return value
+  const { $ref } = value
+  if (seen.includes($ref)) {
+    throw new Error(`The $ref "${$ref}" refers back to itself: ${[...seen, $ref].join(" -> ")}.`)
+  }
+  const [hash, components, section, name, ...rest] = $ref.split("/")
+  const target =
+    hash === "#" && components === "components" && rest.length === 0
+      ? doc.components?.[section]?.[name]
+      : undefined
+  if (!target) throw new Error(`Couldn't resolve the $ref "${$ref}".`)
+  return resolve(doc, target as T, [...seen, $ref])
+}
+
+function jsonSchema(content: OpenApiContent | undefined): JsonSchema | undefined {
+  const types = Object.keys(content?.content ?? {})
+  const json = types.find((type) => /[/+]json\b/.test(type)) ?? types.find((t) => t === "*/*")
+  return json ? (content.content[json].schema ?? {}) : undefined
+}
+
+/** `export interface` for objects with properties, `export type` for everything else */
+function declaration(name: string, schema: JsonSchema | undefined, description?: string) {
+  const comment = docComment(description ?? schema?.description)
+  if (!schema?.$ref && schema?.properties && !schema.allOf && !schema.nullable) {
+    const required = schema.required ?? []
+    const properties = Object.keys(schema.properties).map((key) => {
+      const property = schema.properties[key]
+      const optional = required.includes(key) ? "" : "?"
+      const line = `  ${propertyKey(key)}${optional}: ${schemaType(property)}`
+      return docComment(property.description, "  ") + line
+    })
+    return `${comment}export interface ${name} {\n${properties.join("\n")}\n}`
+  }
+  return `${comment}export type ${name} = ${schemaType(schema)}`
+}
+
+/** e.g. `get pets by petId` for `GET /pets/{petId}` */
+function defaultOperationName(httpMethod: string, path: string) {
+  const segments = path.split("/").map((segment) => segment.replace(/^\{(.*)\}$/, "by $1"))
+  return [httpMethod, ...segments].join(" ")
+}
+
+/**
+ * The doc's operations as `Api` methods, named after their `operationId`, or else the HTTP
+ * method and path, e.g. `getPetsByPetId` for `GET /pets/{petId}`.
+ * @throws if a `$ref` can't be resolved, or two operations would get the same method name
+ */
+export function openApiOperations(doc: OpenApiDocument): ApiOperation[] {
+  const operations: ApiOperation[] = []
+  Object.keys(doc.paths ?? {}).forEach((path) => {
+    const item = doc.paths[path]
+    const shared = (item.parameters ?? []) as OpenApiParameter[]
+
+    HTTP_METHODS.filter((method) => item[method]).forEach((httpMethod) => {
+      const operation = item[httpMethod] as OpenApiOperation
+      const name = strings.camelCase(
+        operation.operationId ?? defaultOperationName(httpMethod, path),
+      )
+      const typeName = strings.pascalCase(name)
+
+      // an operation's parameters override the path's ones with the same name and location
+      const parameters = [...shared, ...(operation.parameters ?? [])]
+        .map((parameter) => resolve(doc, parameter))
+        .filter((p, i, all) => !all.slice(i + 1).some((o) => o.name === p.name && o.in === p.in))
+      const queryParams = parameters.filter((parameter) => parameter.in === "query")
+
+      const successCode = Object.keys(operation.responses ?? {}).find((code) => /^2/.test(code))
+      const response = jsonSchema(resolve(doc, operation.responses?.[successCode]))
+      const body = jsonSchema(resolve(doc, operation.requestBody))
+
+      const duplicate = operations.find((other) => other.name === name)
+      if (duplicate) {
+        const first = `${duplicate.httpMethod.toUpperCase()} ${duplicate.path}`
+        const second = `${httpMethod.toUpperCase()} ${path}`
+        throw new Error(
+          `${first} and ${second} would both be the Api method ${name}; give one of them a different operationId.`,
+        )
+      }
+
+      operations.push({
+        name,
+        httpMethod,
+        path,
+        summary: operation.summary ?? operation.description,
+        pathParams: parameters
+          .filter((parameter) => parameter.in === "path")
+          .map((parameter) => ({
+            name: parameter.name,
+            variable: strings.camelCase(parameter.name),
+            type: schemaType(parameter.schema ?? { type: "string" }),
+          })),
+        query: queryParams.length > 0 && {
+          type: `${typeName}Query`,
+          required: queryParams.some((parameter) => parameter.required),
+          params: queryParams,
+        },
+        body: body && { type: `${typeName}Request`, schema: body },
+        response: response && { type: `${typeName}Response`, schema: response },
+      })
+    })
+  })
+  return operations
+}
+
+/** Types for the doc's schemas, and each operation's query params, request and response */
+export function openApiTypes(doc: OpenApiDocument): string {
+  const declarations = Object.keys(doc.components?.schemas ?? {}).map((name) =>
+    declaration(strings.pascalCase(name), doc.components.schemas[name]),
+  )
+
+  openApiOperations(doc).forEach(({ name, query, body, response }) => {
+    const typeName = strings.pascalCase(name)
+    if (query) {
+      const schema: JsonSchema = {
+        properties: query.params.reduce(
+          (properties, p) => ({
+            ...properties,
+            [p.name]: { ...p.schema, description: p.description },
+          }),
+          {},
+        ),
+        required: query.params.filter((p) => p.required).map((p) => p.name),
+      }
+      declarations.push(declaration(query.type, schema, `Query params for ${typeName}.`))
+    }
+    if (body) {
+      declarations.push(declaration(body.type, body.schema, `Request body for ${typeName}.`))
+    }
+    if (response) {
+      const description = `Response of ${typeName}.`
+      declarations.push(declaration(response.type, response.schema, description))
+    }
+  })
+
+  return declarations.join("\n\n")
+}
+
+/**
+ * Joins a call's or signature's arguments, one per line if they don't fit on one.
+ * @param offset the indentation the code will get, which counts towards the line length
+ */
+function wrapArguments(before: string, args: string[], after: string, indent: string, offset = "") {
+  const oneLine = `${indent}${before}${args.join(", ")}${after}`
+  if ((offset + oneLine).length <= MAX_LINE_LENGTH || args.length === 0) return oneLine
+  const lines = args.map((arg) => `${indent}  ${arg},`)
+  return [`${indent}${before}`, ...lines, `${indent}${after}`].join("\n")
+}
+
+/** The `Api` class methods for the doc's operations, following `getEpisodes` */
+export function openApiMethods(doc: OpenApiDocument): string {
+  return openApiOperations(doc)
+    .map((operation) => {
+      const { name, httpMethod, pathParams, query, body, response } = operation
+      const params = [
+        ...pathParams.map((param) => `${param.variable}: ${param.type}`),
+        ...(body ? [`body: ${body.type}`] : []),
+        ...(query ? [`query${query.required ? "" : "?"}: ${query.type}`] : []),
+      ]
+      const result = response ? `{ kind: "ok"; data: ${response.type} }` : `{ kind: "ok" }`
+      const signature = wrapArguments(
+        `async ${name}(`,
+        params,
+        `): Promise<${result} | GeneralApiProblem> {`,
+        "",
+        CLASS_INDENT,
+      )
+
+      let url = operation.path
+      pathParams.forEach((param) => {
+        url = url.split(`{${param.name}}`).join(`\${encodeURIComponent(${param.variable})}`)
+      })
+      url = url.includes("${") ? `\`${url}\`` : JSON.stringify(url)
+
+      const args = [url]
+      if (["post", "put", "patch"].includes(httpMethod)) {
+        if (body || query) args.push(body ? "body" : "undefined")
+        if (query) args.push("{ params: query }")
+      } else if (query) {
+        args.push("query")
+      }
+      const call = wrapArguments(
+        `const response: ApiResponse<${response?.type ?? "unknown"}> = await this.apisauce.${httpMethod}(`,
+        args,
+        ")",
+        "  ",
+        CLASS_INDENT,
+      )
+
+      return [
+        docComment(operation.summary ?? `${httpMethod.toUpperCase()} ${operation.path}`) +
+          signature,
+        call,
+        "",
+        "  // the typical ways to die when calling an api",
+        "  if (!response.ok) {",
+        "    const problem = getGeneralApiProblem(response)",
+        "    if (problem) return problem",
+        "  }",
+        "",
+        response
+          ? `  return { kind: "ok", data: response.data as ${response.type} }`
+          : `  return { kind: "ok" }`,
+        "}",
+      ].join("\n")
+    })
+    .join("\n\n")
+}
+
+/**
+ * MST models for the doc's object schemas, following the app's models. Models are declared
+ * after the ones they use; a cycle falls back to `types.frozen`.
+ */
+export function openApiModels(doc: OpenApiDocument): string {
+  const schemas = doc.components?.schemas ?? {}
+  const objects = Object.keys(schemas).filter((name) => schemas[name].properties)
+  const declared: string[] = []
+  const visiting: string[] = []
+  const models: string[] = []
+  let usesApiTypes = false
+
+  const declare = (schemaName: string) => {
+    const name = strings.pascalCase(schemaName)
+    if (declared.includes(name) || visiting.includes(name)) return
+    visiting.push(name)
+
+    const schema = schemas[schemaName]
+    // declare the models this one uses first
+    Object.keys(schema.properties)
+      .map((key) => schema.properties[key].$ref ?? schema.properties[key].items?.$ref)
+      .filter((ref) => ref && objects.includes(ref.split("/").pop()))
+      .forEach((ref) => declare(ref.split("/").pop()))
+
+    const required = schema.required ?? []
+    const properties = Object.keys(schema.properties).map((key) => {
+      const property = schema.properties[key]
+      let type = modelType(property, required.includes(key), {
+        modelFor: (s) => {
+          const model = s.$ref && refName(s.$ref)
+          return declared.includes(model) ? `${model}Model` : undefined
+        },
+        frozenType: (s) => schemaType(s, "ApiTypes."),
+      })
+      if (key === "id" && required.includes(key) && !property.nullable) {
+        if (type === "types.string") type = "types.identifier"
+        if (type === "types.number") type = "types.identifierNumber"
+      }
+      usesApiTypes = usesApiTypes || type.includes("ApiTypes.")
+      return docComment(property.description, "    ") + `    ${propertyKey(key)}: ${type},`
+    })
+
+    models.push(
+      [
+        docComment(schema.description ?? `${name}, as the API describes it.`) +
+          `export const ${name}Model = types`,
+        `  .model(${JSON.stringify(name)})`,
+        "  .props({",
+        ...properties,
+        "  })",
+        "  .actions(withSetPropAction)",
+        "",
+        `export interface ${name} extends Instance<typeof ${name}Model> {}`,
+        `export interface ${name}SnapshotOut extends SnapshotOut<typeof ${name}Model> {}`,
+        `export interface ${name}SnapshotIn extends SnapshotIn<typeof ${name}Model> {}`,
+      ].join("\n"),
+    )
+    visiting.pop()
+    declared.push(name)
+  }
+  objects.forEach(declare)
+
+  const imports = [
+    `import { Instance, SnapshotIn, SnapshotOut, types } from "mobx-state-tree"`,
+    `import { withSetPropAction } from "./helpers/withSetPropAction"`,
+    ...(usesApiTypes ? [`import type * as ApiTypes from "../services/api/api.types"`] : []),
+  ]
+  return [imports.join("\n"), ...models].join("\n\n")
+}
+
+/** The generated code between labelled start and end comments */
+function regionLines(label: RegionLabel, code: string, source: string, indent = "") {
+  const lines = [
+    `${REGION_START} ${label}`,
+    `// Generated from ${source} by \`ignite g api --from\`. Running it again replaces this part.`,
+    ...code.split("\n"),
+    `${REGION_END} ${label}`,
+  ]
+  return lines.map((line) => (line ? indent + line : line)).join("\n")
+}
+
+/** Where a generated region is, as line indexes, or undefined if there isn't one */
+function findRegion(contents: string, fileName: string, label: RegionLabel) {
+  const lines = contents.split("\n")
+  const start = lines.findIndex((line) => line.trim() === `${REGION_START} ${label}`)
+  const end = lines.findIndex((line, i) => i > start && line.trim() === `${REGION_END} ${label}`)
+  if (start === -1) return undefined
+  if (end === -1) throw new Error(`${fileName} has a "${REGION_START} ${label}" without an end.`)
+  return { lines, start, end }
+}
+
+/**
+ * Replaces a generated region in a file, or inserts it with `insert` if there isn't one.
+ * Everything outside the region is left alone.
+ */
+function writeRegion(
+  contents: string,
+  fileName: string,
+  label: RegionLabel,
+  region: string,
+  insert: (contents: string) => string,
+) {
+  const found = findRegion(contents, fileName, label)
+  if (!found) return insert(contents)
+  const { lines, start, end } = found
+  return [...lines.slice(0, start), region, ...lines.slice(end + 1)].join("\n")
+}
+
+/** Removes a generated region, and the blank line it was inserted after */
+function removeRegion(contents: string, fileName: string, label: RegionLabel) {
+  const found = findRegion(contents, fileName, label)
+  if (!found) return contents
+  const { lines, start, end } = found
+  const from = start > 0 && lines[start - 1].trim() === "" ? start - 1 : start
+  return [...lines.slice(0, from), ...lines.slice(end + 1)].join("\n")
+}
+
+function lineStart(text: string, pos: number) {
+  return text.lastIndexOf("\n", pos - 1) + 1
+}
+
+/** Adds a region after the last import */
+function insertAfterImports(contents: string, region: string) {
+  const sf = ts.createSourceFile("api.ts", contents, ts.ScriptTarget.Latest, true)
+  const lastImport = sf.statements.filter(ts.isImportDeclaration).pop()
+  if (!lastImport) return `${region}\n${contents}`
+  const end = contents.indexOf("\n", lastImport.end)
+  return `${contents.slice(0, end)}\n${region}${contents.slice(end)}`
+}
+
+/** Adds a region at the end of the `Api` class */
+function insertIntoApiClass(contents: string, region: string) {
+  const sf = ts.createSourceFile("api.ts", contents, ts.ScriptTarget.Latest, true)
+  const apiClass = sf.statements.find(
+    (statement): statement is ts.ClassDeclaration =>
+      ts.isClassDeclaration(statement) && statement.name?.text === "Api",
+  )
+  if (!apiClass) throw new Error(`Couldn't find the Api class.`)
+  const at = lineStart(contents, apiClass.end - 1)
+  return `${contents.slice(0, at)}\n${region}\n${contents.slice(at)}`
+}
+
+function appendRegion(contents: string, region: string) {
+  return contents.trim() ? `${contents.replace(/\n*$/, "\n")}\n${region}\n` : `${region}\n`
+}
+
+/** `import type { ... } from "./api.types"`, wrapped like Prettier does if it's too long */
+function typesImport(names: string[]) {
+  const oneLine = `import type { ${names.join(", ")} } from "./api.types"`
+  if (oneLine.length <= MAX_LINE_LENGTH) return oneLine
+  return `import type {\n${names.map((name) => `  ${name},`).join("\n")}\n} from "./api.types"`
+}
+
+/**
+ * Adds (or regenerates) the doc's types, `Api` methods and, with `models`, MST models in the
+ * generated regions of the files.
+ * @param source the document's path, mentioned in the regions so it's clear what made them
+ * @throws if api.ts has no `Api` class or a region is missing its end
+ */
+export function generateOpenApiCode(
+  doc: OpenApiDocument,
+  files: OpenApiFiles,
+  options: { source: string; models?: boolean },
+): OpenApiFiles {
+  const { source } = options
+  const operations = openApiOperations(doc)
+  const typeNames: string[] = []
+  operations.forEach((operation) => {
+    const { query, body, response } = operation
+    typeNames.push(...[query?.type, body?.type, response?.type].filter(Boolean))
+  })
+
+  let api = files.api
+  if (operations.length > 0) {
+    API_IMPORTS.forEach((patch) => {
+      api = applyAstPatch("api.ts", api, patch).contents
+    })
+  }
+  const imports = regionLines("imports", typeNames.length ? typesImport(typeNames) : "", source)
+  api = writeRegion(api, "api.ts", "imports", imports, (text) => insertAfterImports(text, imports))
+  const methods = regionLines("methods", openApiMethods(doc), source, CLASS_INDENT)
+  api = writeRegion(api, "api.ts", "methods", methods, (text) => insertIntoApiClass(text, methods))
+
+  const typesRegion = regionLines("types", openApiTypes(doc), source)
+  const types = writeRegion(files.types, "api.types.ts", "types", typesRegion, (text) =>
+    appendRegion(text, typesRegion),
+  )
+
+  let models = files.models
+  if (options.models) {
+    const modelsRegion = regionLines("models", openApiModels(doc), source)
+    models = writeRegion(models ?? "", "ApiModels.ts", "models", modelsRegion, (text) =>
+      appendRegion(text, modelsRegion),
+    )
+  }
+
+  return { api, types, models }
+}
+
+/** Removes the generated regions, and the imports they needed that nothing else uses */
+export function removeOpenApiCode(files: OpenApiFiles): OpenApiFiles {
+  let api = removeRegion(removeRegion(files.api, "api.ts", "methods"), "api.ts", "imports")
+  API_IMPORTS.forEach((patch) => {
+    try {
+      api = revertAstPatch("api.ts", api, patch)
+    } catch {
+      // the import is gone already
+    }
+  })
+  const models = files.models && removeRegion(files.models, "ApiModels.ts", "models")
+  return { api, types: removeRegion(files.types, "api.types.ts", "types"), models }
+}
+
+/**
+ * Generates the API layer from an OpenAPI document, or removes it with `undo`, writing the
+ * project's api.ts, api.types.ts and (with `models`) models/ApiModels.ts.
+ * @throws if the document can't be read or the project's files can't be updated
+ */
+export function generateOpenApi(
+  source: string,
+  options: { models?: boolean; undo?: boolean } = {},
+): OpenApiResult {
+  const appDir = appDirName()
+  const paths = {
+    api: `${appDir}/services/api/api.ts`,
+    types: `${appDir}/services/api/api.types.ts`,
+    models: `${appDir}/models/ApiModels.ts`,
+  }
+  if (filesystem.exists(paths.api) !== "file" || filesystem.exists(paths.types) !== "file") {
+    throw new Error(`Couldn't find ${paths.api} and ${paths.types}.`)
+  }
+  const files: OpenApiFiles = {
+    api: filesystem.read(paths.api),
+    types: filesystem.read(paths.types),
+    models: filesystem.read(paths.models),
+  }
+
+  let doc: OpenApiDocument
+  let updatedFiles: OpenApiFiles
+  if (options.undo) {
+    updatedFiles = removeOpenApiCode(files)
+  } else {
+    if (filesystem.exists(source) !== "file") throw new Error(`Couldn't find ${source}.`)
+    doc = parseOpenApi(filesystem.read(source), source)
+    updatedFiles = generateOpenApiCode(doc, files, { source, models: options.models })
+  }
+
+  const result: OpenApiResult = {
+    operations: doc ? openApiOperations(doc).map((operation) => operation.name) : [],
+    written: [],
+    updated: [],
+    removed: [],
+  }
+  Object.keys(paths).forEach((key) => {
+    const before = files[key] as string | undefined
+    const after = updatedFiles[key] as string | undefined
+    if (after === undefined || after === before) return
+
+    if (before !== undefined && after.trim() === "") {
+      filesystem.remove(paths[key])
+      result.removed.push(paths[key])
+      return
+    }
+    filesystem.write(paths[key], after)
+    result[before === undefined ? "written" : "updated"].push(paths[key])
+  })
+  return result
+}
+
+export type OpenApiExports = {
+  generateOpenApi: typeof generateOpenApi
+}
@@ -0,0 +1,118 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import { demoDependenciesToRemove } from "./demo"
+import { expoRouterDependencies } from "./dependencies"
+import { mstDependenciesToRemove } from "./mst"
+import { buildCreationPlan } from "./plan"
+
+const boilerplatePath = filesystem.path(__dirname, "..", "..", "boilerplate")
+
+describe("plan", () => {
+  describe("buildCreationPlan", () => {
+    const tempPath = useTempDir()
+    const originalCI = process.env.CI
+    let defaults: Parameters<typeof buildCreationPlan>[0]
+
+    beforeEach(() => {
+      process.env.CI = "true"
+      defaults = {
+        boilerplatePath,
+        targetPath: tempPath("PizzaApp"),
+        igniteVersion: "10.0.0",
+        packagerName: "yarn",
+        stateMgmt: "mst",
+        removeDemo: false,
+        installDeps: true,
+        git: true,
+        expoRouter: false,
+        newArch: false,
+      }
+    })
+
+    afterEach(() => {
+      if (originalCI === undefined) delete process.env.CI
+      else process.env.CI = originalCI
+    })
+
+    it("should keep the demo code and MobX-State-Tree, and install, format and commit", async () => {
+      const plan = await buildCreationPlan(defaults)
+      const targetPath = tempPath("PizzaApp")
+
+      expect(plan.dependencies).toEqual({ added: {}, updated: {}, removed: [] })
+      expect(plan.removedFiles).toEqual(["src"])
+      expect(plan.commands).toEqual([
+        "yarn -v",
+        "yarn install",
+        "yarn prebuild:clean",
+        `npx ignite-cli remove-feature demo "${targetPath}" --markup-only`,
+        `npx ignite-cli remove-feature mst "${targetPath}" --markup-only`,
+        "yarn format",
+        "git init",
+        "git add -A",
+        `git commit -m "New Ignite 10.0.0 app"`,
+      ])
+      expect(plan.existingFolder).toBeUndefined()
+    })
+
+    it("should list the dependencies and files that demo and MobX-State-Tree removal drop", async () => {
+      const plan = await buildCreationPlan({ ...defaults, removeDemo: true, stateMgmt: "none" })
+      const targetPath = tempPath("PizzaApp")
+
+      expect(plan.dependencies.removed).toEqual(
+        [...demoDependenciesToRemove, ...mstDependenciesToRemove].filter(
+          (dep, index, self) => self.indexOf(dep) === index,
+        ),
+      )
+      expect(plan.removedFiles).toEqual(
+        expect.arrayContaining([
+          "app/models/RootStore.ts",
+          "assets/icons/demo",
+          "patches/react-native-drawer-layout+4.0.0-alpha.9.patch",
+        ]),
+      )
+      expect(plan.commands).toContain(`npx ignite-cli remove-feature demo "${targetPath}"`)
+      expect(plan.commands).toContain(`npx ignite-cli remove-feature mst "${targetPath}"`)
+    })
+
+    it("should add Expo Router and drop React Navigation's files", async () => {
+      const plan = await buildCreationPlan({ ...defaults, expoRouter: true, packagerName: "npm" })
+
+      expect(plan.dependencies.added).toEqual(expoRouterDependencies)
+      expect(plan.removedFiles).toEqual(
+        expect.arrayContaining(["App.tsx", "app/app.tsx", "app/navigators", "app/screens"]),
+      )
+      expect(plan.removedFiles).not.toContain("src")
+      expect(plan.commands.slice(0, 3)).toEqual([
+        "npm install --legacy-peer-deps",
+        "npm install ajv@^8 --legacy-peer-deps",
+        "npm run prebuild:clean",
+      ])
+    })
+
+    it("should skip installing and committing, and fix Expo versions outside of CI", async () => {
+      expect(
+        (await buildCreationPlan({ ...defaults, installDeps: false, git: false })).commands,
+      ).toEqual([
+        "yarn -v",
+        `npx ignite-cli remove-feature demo "${tempPath("PizzaApp")}" --markup-only`,
+        `npx ignite-cli remove-feature mst "${tempPath("PizzaApp")}" --markup-only`,
+        "npx prettier@3.3.3 --write .",
+      ])
+
+      process.env.CI = "false"
+      expect((await buildCreationPlan(defaults)).commands).toContain("npx expo install --fix")
+    })
+
+    it("should report what would happen to a folder already at the target path", async () => {
+      filesystem.dir(tempPath("PizzaApp"))
+
+      expect((await buildCreationPlan(defaults)).existingFolder).toBe("ask")
+      expect((await buildCreationPlan({ ...defaults, overwrite: true })).existingFolder).toBe(
+        "remove",
+      )
+      expect((await buildCreationPlan({ ...defaults, overwrite: false })).existingFolder).toBe(
+        "keep",
+      )
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { filesystem } from "gluegun"
+import * as pathlib from "path"
+import { demoDependenciesToRemove, DEMO_MARKUP_PREFIX } from "./demo"
+import { expoRouterDependencies, newArchCompatExpectedVersions } from "./dependencies"
+import { findFiles, findFilesToRemove } from "./markup"
+import { MST_MARKUP_PREFIX, mstDependenciesToRemove } from "./mst"
+import { packager, PackagerName } from "./packager"
+
+type CreationPlanOptions = {
+  boilerplatePath: string
+  targetPath: string
+  /** `--overwrite`, or undefined if it wasn't passed and Ignite would ask */
+  overwrite?: boolean
+  igniteVersion: string
+  packagerName: PackagerName
+  stateMgmt: "mst" | "none"
+  removeDemo: boolean
+  installDeps: boolean
+  git: boolean
+  expoRouter: boolean
+  newArch: boolean
+  expoVersion?: string
+}
+
+export type CreationPlan = {
+  dependencies: {
+    added: Record<string, string>
+    updated: Record<string, string>
+    removed: string[]
+  }
+  /** paths relative to the project root */
+  removedFiles: string[]
+  /** shell commands, in the order they would run inside the project */
+  commands: string[]
+  /**
+   * what would happen to a folder already at the target path: removed (`--overwrite`), ask first,
+   * or kept, which stops `ignite new`
+   */
+  existingFolder?: "remove" | "ask" | "keep"
+}
+
+// paths removed from the project when converting to expo-router, before app/ moves to src/
+const expoRouterRemovedPaths = [
+  "App.tsx",
+  "app/app.tsx",
+  "app/navigators",
+  "app/screens",
+  "ignite/templates/navigator",
+  "ignite/templates/screen/NAMEScreen.tsx.ejs",
+]
+
+/**
+ * Works out everything `ignite new` would do for a set of resolved options,
+ * without writing to disk or running anything. Used by `ignite new --dry-run`.
+ */
+export async function buildCreationPlan(options: CreationPlanOptions): Promise<CreationPlan> {
+  const { boilerplatePath, targetPath, packagerName, stateMgmt, removeDemo } = options
+  const packagerOptions = { packagerName }
+  const relative = (path: string) => pathlib.relative(boilerplatePath, path)
+
+  // #region Dependencies
+  const added: Record<string, string> = {}
+  const updated: Record<string, string> = {}
+  const removed: string[] = []
+
+  if (options.expoRouter) Object.assign(added, expoRouterDependencies)
+  if (options.expoVersion) updated.expo = `<latest "${options.expoVersion}" dist-tag>`
+  if (removeDemo) removed.push(...demoDependenciesToRemove)
+  if (stateMgmt === "none") removed.push(...mstDependenciesToRemove)
+  if (options.newArch) {
+    Object.assign(updated, newArchCompatExpectedVersions)
+    removed.push("expo-dev-client")
+  }
+  // #endregion
+
+  // #region Removed files
+  const filePaths = findFiles(boilerplatePath)
+  const removedFiles: string[] = []
+
+  if (removeDemo) {
+    const demoFiles = await findFilesToRemove({ filePaths, markupPrefix: DEMO_MARKUP_PREFIX })
+    const demoPatches = filesystem
+      .cwd(boilerplatePath)
+      .find("patches", { matching: demoDependenciesToRemove.map((dep) => `${dep}*.patch`) })
+    const demoDirs = filesystem
+      .cwd(boilerplatePath)
+      .find({ matching: ["**/demo", "!**/node_modules/**"], files: false, directories: true })
+    removedFiles.push(...demoFiles.map(relative), ...demoPatches, ...demoDirs)
+  }
+
+  if (options.expoRouter) {
+    removedFiles.push(...expoRouterRemovedPaths)
+  } else {
+    removedFiles.push("src")
+  }
+
+  if (stateMgmt === "none") {
+    const mstFiles = await findFilesToRemove({ filePaths, markupPrefix: MST_MARKUP_PREFIX })
+    removedFiles.push(...mstFiles.map(relative))
+  }
+  // #endregion
+
+  // #region Commands
+  const IGNITE = "npx ignite-cli"
+  const commands: string[] = []
+
+  if (options.expoVersion) commands.push("npm view expo dist-tags --json")
+  if (packagerName === "yarn") commands.push("yarn -v")
+  if (options.installDeps) {
+    commands.push(packager.installCmd(packagerOptions))
+    if (packagerName === "npm" && options.expoRouter) {
+      commands.push("npm install ajv@^8 --legacy-peer-deps")
+    }
+    if (process.env.CI !== "true") {
+      const forwardOptions = packagerName === "npm" ? " -- --legacy-peer-deps" : ""
+      commands.push(`npx expo install --fix${forwardOptions}`)
+    }
+    commands.push(packager.runCmd("prebuild:clean", packagerOptions))
+  }
+  commands.push(
+    `${IGNITE} remove-feature demo "${targetPath}"${removeDemo ? "" : " --markup-only"}`,
+  )
+  commands.push(
+    `${IGNITE} remove-feature mst "${targetPath}"${stateMgmt === "none" ? "" : " --markup-only"}`,
+  )
+  commands.push(
+    options.installDeps
+      ? packager.runCmd("format", packagerOptions)
+      : "npx prettier@3.3.3 --write .",
+  )
+  if (options.git) {
+    commands.push(
+      "git init",
+      "git add -A",
+      `git commit -m "New Ignite ${options.igniteVersion} app"`,
+    )
+  }
+  // #endregion
+
+  let existingFolder: CreationPlan["existingFolder"]
+  if (filesystem.exists(targetPath)) {
+    if (options.overwrite === undefined) existingFolder = "ask"
+    else existingFolder = options.overwrite ? "remove" : "keep"
+  }
+
+  const distinct = (val: string, index: number, self: string[]) => self.indexOf(val) === index
+
+  return {
+    dependencies: { added, updated, removed: removed.filter(distinct) },
+    removedFiles: removedFiles.filter(distinct).sort(),
+    commands,
+    existingFolder,
+  }
+}
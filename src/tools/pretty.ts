@@ -1,12 +1,82 @@
+import { writeSync } from "fs"
 import { print } from "gluegun"
 import { asset, AssetName } from "../assets"
 import type { PackagerName } from "./packager"
+import { stripANSI } from "./strip-ansi"
 
 const { bgRed, bgWhite, underline, gray, white, bold, red, yellow } = print.colors
 
 export const INDENT = "   "
 
-export const p = (m = "") => print.info(gray(INDENT + m))
+// #region JSON output
+/**
+ * The single object printed to stdout by any command run with `--json`.
+ * Keep this shape stable; tooling depends on it.
+ */
+export type JsonOutput = {
+  command: string
+  success: boolean
+  durationMs: number
+  result: Record<string, unknown>
+  warnings: string[]
+  errors: string[]
+}
+
+const jsonState = {
+  enabled: false,
+  command: "",
+  startTime: 0,
+  result: {} as Record<string, unknown>,
+  warnings: [] as string[],
+  errors: [] as string[],
+}
+
+const printJsonOutput = () => {
+  if (jsonState.errors.length > 0 && !process.exitCode) process.exitCode = 1
+  const exitCode = Number(process.exitCode ?? 0)
+  if (exitCode !== 0 && jsonState.errors.length === 0) {
+    jsonState.errors.push(`ignite-cli ${jsonState.command} exited with code ${exitCode}`)
+  }
+
+  const output: JsonOutput = {
+    command: jsonState.command,
+    success: exitCode === 0,
+    durationMs: Date.now() - jsonState.startTime,
+    result: jsonState.result,
+    warnings: jsonState.warnings,
+    errors: jsonState.errors,
+  }
+  // written synchronously, since this runs in the process "exit" handler
+  writeSync(1, JSON.stringify(output, null, 2) + "\n")
+}
+
+/**
+ * Machine-readable output for the `--json` flag. Once started, the pretty helpers and
+ * spinners go quiet and a single `JsonOutput` object is printed when the process exits,
+ * with a non-zero exit code if any errors were recorded.
+ */
+export const jsonOutput = {
+  /** @returns whether `--json` was passed */
+  start: (command: string, options: { json?: unknown }): boolean => {
+    if (!options.json || options.json === "false") return false
+    if (!jsonState.enabled) process.once("exit", printJsonOutput)
+    Object.assign(jsonState, { enabled: true, command, startTime: Date.now() })
+    return true
+  },
+  isEnabled: () => jsonState.enabled,
+  /** merges `data` into the `result` object */
+  result: (data: Record<string, unknown>) => {
+    Object.assign(jsonState.result, data)
+  },
+  error: (message: string) => {
+    if (jsonState.enabled) jsonState.errors.push(stripANSI(message).trim())
+  },
+}
+// #endregion
+
+export const p = (m = "") => {
+  if (!jsonState.enabled) print.info(gray(INDENT + m))
+}
 
 export const heading = (m = "") => p(white(bold(m)))
 
@@ -25,7 +95,10 @@ export const command = (
 
 export const direction = (m = "") => p(red(m))
 
-export const warning = (m = "") => p(yellow(m))
+export const warning = (m = "") => {
+  if (jsonState.enabled) jsonState.warnings.push(stripANSI(m).trim())
+  else p(yellow(m))
+}
 
 export const igniteHeading = () =>
   p(
@@ -37,6 +110,7 @@ export const igniteHeading = () =>
   )
 
 export const ascii = (assetname: AssetName) => {
+  if (jsonState.enabled) return
   console.log(
     asset
       .get(assetname)
@@ -88,6 +162,7 @@ type Spinner = ReturnType<typeof print.spin>
 const spinners: { [key: string]: Spinner } = {}
 
 export const startSpinner = (m = "") => {
+  if (jsonState.enabled) return undefined
   let spinner = spinners[m]
   if (!spinner) {
     spinner = print.spin({ prefixText: INDENT, text: gray(m) })
@@ -0,0 +1,23 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import { readIgniteConfig, updateIgniteConfig } from "./project"
+
+describe("project", () => {
+  describe("updateIgniteConfig", () => {
+    const tempPath = useTempDir()
+
+    it("should merge into the ignite key and keep app.json's formatting", () => {
+      filesystem.write(
+        tempPath("app.json"),
+        `{\n    "name": "Foo",\n    "ignite": {\n        "version": "10.0.0"\n    }\n}\n`,
+      )
+
+      updateIgniteConfig({ removeDemo: true }, tempPath())
+
+      expect(readIgniteConfig(tempPath())).toEqual({ version: "10.0.0", removeDemo: true })
+      expect(filesystem.read(tempPath("app.json"))).toBe(
+        `{\n    "name": "Foo",\n    "ignite": {\n        "version": "10.0.0",\n        "removeDemo": true\n    }\n}\n`,
+      )
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { filesystem } from "gluegun"
+import { formatJson } from "./json-markup"
+import type { PackagerName } from "./packager"
+
+/**
+ * How a project was created, recorded by `ignite new` under the `ignite` key in app.json so
+ * later commands don't have to guess. Projects created before Ignite recorded this only have
+ * `version`, so everything else may be missing.
+ */
+export type IgniteProjectConfig = {
+  version?: string
+  workflow?: "cng" | "manual"
+  state?: "mst" | "none"
+  removeDemo?: boolean
+  expoRouter?: boolean
+  newArch?: boolean
+  packager?: PackagerName
+  bundleIdentifier?: string
+}
+
+function appJsonPath(projectPath: string) {
+  return filesystem.path(projectPath, "app.json")
+}
+
+/**
+ * Reads the `ignite` key from the project's app.json.
+ * @returns an empty object if there's no app.json or it can't be parsed
+ */
+export function readIgniteConfig(projectPath: string = process.cwd()): IgniteProjectConfig {
+  try {
+    return filesystem.read(appJsonPath(projectPath), "json")?.ignite ?? {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Merges `changes` into the `ignite` key of the project's app.json, e.g. after `remove-demo`.
+ * Does nothing if the project has no app.json.
+ */
+export function updateIgniteConfig(
+  changes: IgniteProjectConfig,
+  projectPath: string = process.cwd(),
+) {
+  const path = appJsonPath(projectPath)
+  if (filesystem.exists(path) !== "file") return
+
+  // written back the way it was formatted, so the only change in the diff is the ignite key
+  const raw = filesystem.read(path)
+  const appJson = JSON.parse(raw)
+  appJson.ignite = { ...appJson.ignite, ...changes }
+  filesystem.write(path, formatJson(appJson, raw))
+}
+
+/**
+ * The folder app code lives in: `src` for projects converted to Expo Router, `app` otherwise.
+ * Falls back to looking for `src/app` for projects that didn't record `expoRouter`.
+ */
+export function appDirName(projectPath: string = process.cwd()): "app" | "src" {
+  const expoRouter =
+    readIgniteConfig(projectPath).expoRouter ??
+    filesystem.exists(filesystem.path(projectPath, "src", "app")) === "dir"
+  return expoRouter ? "src" : "app"
+}
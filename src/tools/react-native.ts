@@ -240,13 +240,30 @@ export function createExpoRouterScreenTemplate(toolbox: GluegunToolbox) {
     const TARGET_DIR = filesystem.path(process.cwd())
     const filePath = filesystem.path(TARGET_DIR, "ignite/templates/screen/NAME.tsx.ejs")
 
-    const EXPO_ROUTER_SCREEN_TPL = `import React, { FC } from "react"
+    // `props.routeParams` holds the route's dynamic segments, e.g. [id] or [...slug]
+    const EXPO_ROUTER_SCREEN_TPL = `<%_ const params = props.routeParams ?? [] _%>
+import React, { FC } from "react"
 import { observer } from "mobx-react-lite"
 import { ViewStyle } from "react-native"
+<%_ if (params.length > 0) { _%>
+import { useLocalSearchParams } from "expo-router"
+<%_ } _%>
 import { Screen, Text } from "src/components"
 
+<%_ if (params.length > 0) { _%>
+type <%= props.pascalCaseName %>Params = {
+<%_ params.forEach((param) => { _%>
+  <%= param.name %>: <%= param.catchAll ? "string[]" : "string" %>
+<%_ }) _%>
+}
+
+<%_ } _%>
 // @mst replace-next-line export default function <%= props.pascalCaseName %>Screen() {
 export default observer(function <%= props.pascalCaseName %>Screen() {
+<%_ if (params.length > 0) { _%>
+  const { <%= params.map((param) => param.name).join(", ") %> } = useLocalSearchParams<<%= props.pascalCaseName %>Params>()
+
+<%_ } _%>
   return (
     <Screen style={$root} preset="scroll">
       <Text text="<%= props.camelCaseName %>" />
@@ -315,6 +332,11 @@ export function updateExpoRouterSrcDir(toolbox: GluegunToolbox) {
     "ignite/templates/model/NAME.ts.ejs",
     "ignite/templates/model/NAME.test.ts.ejs",
     "ignite/templates/component/NAME.tsx.ejs",
+    "ignite/templates/component/NAME.test.tsx.ejs",
+    "ignite/templates/component/DemoNAME.tsx.ejs",
+    "ignite/templates/api/NAMEApi.test.ts.ejs",
+    "ignite/templates/store/NAMEStore.ts.ejs",
+    "ignite/templates/store/NAMEStore.test.ts.ejs",
   ]
   expoRouterFilesToFix.forEach((file) => {
     const filePath = filesystem.path(TARGET_DIR, file)
@@ -0,0 +1,37 @@
+import { parseRecipe } from "./recipes"
+
+describe("recipes", () => {
+  describe("parseRecipe", () => {
+    it("should default step names to the recipe's name and parse skip flags", () => {
+      const recipe = parseRecipe(
+        [
+          "props:",
+          "  withHeader: true",
+          "steps:",
+          "  - generator: screen",
+          "  - generator: model",
+          "    name: TodoStore",
+          "    skip: false",
+          "  - generator: component",
+          "    skip: true",
+        ].join("\n"),
+        "Todo",
+      )
+
+      expect(recipe.props).toEqual({ withHeader: true })
+      expect(recipe.prompts).toEqual([])
+      expect(recipe.steps).toEqual([
+        { generator: "screen", name: "Todo", skip: false },
+        { generator: "model", name: "TodoStore", skip: false },
+        { generator: "component", name: "Todo", skip: true },
+      ])
+    })
+
+    it("should reject recipes without steps or with steps that don't name a generator", () => {
+      expect(() => parseRecipe("description: nothing", "Todo")).toThrow("list of steps")
+      expect(() => parseRecipe("steps:\n  - name: Todo", "Todo")).toThrow(
+        "Step 1 of generator.yml needs a generator",
+      )
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import * as YAML from "yaml"
+import { bool } from "./flag"
+import { parseTemplatePrompts, TemplatePrompt, TemplatePropValue } from "./template-prompts"
+
+/** A generator folder with this file runs other generators instead of rendering templates */
+export const RECIPE_FILE_NAME = "generator.yml"
+
+export type RecipeStep = {
+  generator: string
+  /** defaults to the name the recipe was run with */
+  name: string
+  subdirectory?: string
+  dir?: string
+  case?: string
+  skipIndexFile?: boolean
+  /** passed to the step's template as `props.<name>`, on top of the recipe's props */
+  props?: Record<string, TemplatePropValue>
+  skip?: boolean
+}
+
+export type Recipe = {
+  description?: string
+  prompts: TemplatePrompt[]
+  /** shared by every step */
+  props: Record<string, TemplatePropValue>
+  steps: RecipeStep[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Parses a (rendered) generator.yml.
+ * @param name the name the recipe was run with, used by steps that don't set their own
+ * @throws if it isn't a list of steps that each name a generator
+ */
+export function parseRecipe(contents: string, name: string): Recipe {
+  const data = YAML.parse(contents) ?? {}
+  if (!isObject(data)) throw new Error(`Expected ${RECIPE_FILE_NAME} to contain an object.`)
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new Error(`Expected ${RECIPE_FILE_NAME} to have a list of steps.`)
+  }
+  if (data.props !== undefined && !isObject(data.props)) {
+    throw new Error(`Expected the props in ${RECIPE_FILE_NAME} to be an object.`)
+  }
+
+  const steps = data.steps.map((step: unknown, index: number): RecipeStep => {
+    if (!isObject(step) || typeof step.generator !== "string") {
+      throw new Error(`Step ${index + 1} of ${RECIPE_FILE_NAME} needs a generator.`)
+    }
+    if (step.props !== undefined && !isObject(step.props)) {
+      throw new Error(`Expected the props of step ${index + 1} to be an object.`)
+    }
+    return {
+      ...step,
+      generator: step.generator,
+      name: step.name === undefined ? name : String(step.name),
+      props: step.props as RecipeStep["props"],
+      skip: bool(step.skip),
+    }
+  })
+
+  return {
+    description: typeof data.description === "string" ? data.description : undefined,
+    prompts: parseTemplatePrompts(data.prompts),
+    props: (data.props ?? {}) as Recipe["props"],
+    steps,
+  }
+}
@@ -1,6 +1,7 @@
 export type SpawnOptions = {
   onProgress?: (data: string) => void
   env?: Record<string, unknown>
+  cwd?: string
 }
 export function spawnProgress(commandLine: string, options: SpawnOptions): Promise<string> {
   return new Promise((resolve, reject) => {
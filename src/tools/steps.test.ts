@@ -0,0 +1,61 @@
+import { useTempDir } from "../../test/_temp-dir"
+import { CreationState, readCreationState, runCreationSteps } from "./steps"
+
+describe("steps", () => {
+  describe("runCreationSteps", () => {
+    const tempPath = useTempDir()
+    let targetPath: string
+    let state: CreationState
+    let ran: string[]
+    const record = (name: string) => () => {
+      ran.push(name)
+    }
+
+    beforeEach(() => {
+      targetPath = tempPath()
+      ran = []
+      state = { igniteVersion: "0.0.0", options: {}, completed: [], timings: {} }
+    })
+
+    it("should skip completed steps and record the rest", async () => {
+      state.completed.push("copy")
+
+      await runCreationSteps(
+        [
+          { name: "copy", run: record("copy") },
+          { name: "packageJson", run: record("packageJson") },
+        ],
+        { targetPath, state },
+      )
+
+      expect(ran).toEqual(["packageJson"])
+      const saved = readCreationState(targetPath)
+      expect(saved.completed).toEqual(["copy", "packageJson"])
+      expect(typeof saved.timings.packageJson).toBe("number")
+    })
+
+    it("should record the failed step and stop", async () => {
+      await expect(
+        runCreationSteps(
+          [
+            { name: "copy", run: record("copy") },
+            {
+              name: "install",
+              run: () => {
+                throw new Error("install failed")
+              },
+            },
+            { name: "format", run: record("format") },
+          ],
+          { targetPath, state },
+        ),
+      ).rejects.toThrow("install failed")
+
+      expect(ran).toEqual(["copy"])
+      expect(readCreationState(targetPath)).toMatchObject({
+        completed: ["copy"],
+        failed: { step: "install", error: "Error: install failed" },
+      })
+    })
+  })
+})
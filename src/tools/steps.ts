@@ -0,0 +1,85 @@
+import { filesystem } from "gluegun"
+
+/**
+ * Written to the root of a project while `ignite new` is creating it, and removed once it's done.
+ * If creation fails, it's left behind so `ignite new --resume` knows where to pick up.
+ */
+export const CREATION_STATE_FILE_NAME = ".ignite-new.json"
+
+export const creationStepNames = [
+  "copy",
+  "packageJson",
+  "rename",
+  "install",
+  "cache",
+  "appJson",
+  "prebuild",
+  "removeDemo",
+  "expoRouter",
+  "removeMst",
+  "format",
+  "git",
+] as const
+
+export type CreationStepName = (typeof creationStepNames)[number]
+
+export type CreationStep = {
+  name: CreationStepName
+  run: () => Promise<void> | void
+}
+
+export type CreationState = {
+  igniteVersion: string
+  /** the resolved `ignite new` options, so a resumed run doesn't have to prompt again */
+  options: Record<string, unknown>
+  completed: CreationStepName[]
+  /** milliseconds each completed step took, including steps from earlier runs */
+  timings: Partial<Record<CreationStepName, number>>
+  failed?: { step: CreationStepName; error: string }
+}
+
+export function creationStatePath(targetPath: string) {
+  return filesystem.path(targetPath, CREATION_STATE_FILE_NAME)
+}
+
+export function readCreationState(targetPath: string): CreationState | undefined {
+  const statePath = creationStatePath(targetPath)
+  if (filesystem.exists(statePath) !== "file") return undefined
+  return filesystem.read(statePath, "json")
+}
+
+export function writeCreationState(targetPath: string, state: CreationState) {
+  filesystem.write(creationStatePath(targetPath), state)
+}
+
+export function removeCreationState(targetPath: string) {
+  filesystem.remove(creationStatePath(targetPath))
+}
+
+/**
+ * Runs each step in order, skipping the ones `state` says are already done.
+ * The state file is updated after every step; if a step throws, the failure is
+ * recorded there before the error is rethrown.
+ */
+export async function runCreationSteps(
+  steps: CreationStep[],
+  { targetPath, state }: { targetPath: string; state: CreationState },
+) {
+  for (const step of steps) {
+    if (state.completed.includes(step.name)) continue
+
+    const start = Date.now()
+    try {
+      await step.run()
+    } catch (e) {
+      state.failed = { step: step.name, error: String(e) }
+      writeCreationState(targetPath, state)
+      throw e
+    }
+
+    state.timings[step.name] = Date.now() - start
+    state.completed.push(step.name)
+    delete state.failed
+    writeCreationState(targetPath, state)
+  }
+}
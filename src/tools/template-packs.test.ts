@@ -0,0 +1,48 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import {
+  fetchTemplatePack,
+  readTemplateLock,
+  recordTemplatePack,
+  templateSourceType,
+} from "./template-packs"
+
+describe("template-packs", () => {
+  const tempPath = useTempDir()
+
+  it("should tell folders, git repositories and npm packages apart", () => {
+    expect(templateSourceType("../our-templates")).toBe("path")
+    expect(templateSourceType("/home/me/templates")).toBe("path")
+    expect(templateSourceType("git@github.com:acme/templates.git#v2")).toBe("git")
+    expect(templateSourceType("https://github.com/acme/templates.git")).toBe("git")
+    expect(templateSourceType("github:acme/templates")).toBe("git")
+    expect(templateSourceType("@acme/ignite-templates")).toBe("npm")
+    expect(templateSourceType("ignite-templates@2.1.0")).toBe("npm")
+  })
+
+  it("should find the templates in a folder pack", async () => {
+    const packPath = tempPath("pack")
+    filesystem.write(filesystem.path(packPath, "package.json"), { version: "2.1.0" })
+    filesystem.write(filesystem.path(packPath, "templates", "component", "NAME.tsx.ejs"), "")
+
+    expect(await fetchTemplatePack(packPath, tempPath("download"))).toEqual({
+      type: "path",
+      version: "2.1.0",
+      templatesDir: filesystem.path(packPath, "templates"),
+    })
+    await expect(fetchTemplatePack(tempPath("missing"), tempPath())).rejects.toThrow(
+      "Couldn't find a template pack folder",
+    )
+  })
+
+  it("should record where each generator came from, replacing earlier entries", () => {
+    const pack = { source: "@acme/ignite-templates", type: "npm" as const, version: "1.0.0" }
+    recordTemplatePack(pack, { component: "a", screen: "b" }, tempPath())
+    recordTemplatePack({ ...pack, version: "1.1.0" }, { component: "c" }, tempPath())
+
+    const { generators } = readTemplateLock(tempPath())
+    expect(Object.keys(generators)).toEqual(["component", "screen"])
+    expect(generators.component).toMatchObject({ version: "1.1.0", checksum: "c" })
+    expect(generators.screen).toMatchObject({ version: "1.0.0", checksum: "b" })
+  })
+})
@@ -0,0 +1,132 @@
+import { filesystem, system } from "gluegun"
+
+/** Where template packs installed with `--from` are tracked, relative to the project root */
+export const TEMPLATE_LOCK_PATH = "ignite/templates.lock.json"
+
+export type TemplatePackSourceType = "path" | "git" | "npm"
+
+export type TemplatePackEntry = {
+  /**
+   * the `--from` value, e.g. `../our-templates`, `git@github.com:acme/templates.git#v2`
+   * or `@acme/ignite-templates`
+   */
+  source: string
+  type: TemplatePackSourceType
+  /** package.json version, or the commit for git sources */
+  version: string
+  /** checksum of the generator's template folder as installed, to spot local customizations */
+  checksum: string
+  installedAt: string
+}
+
+export type TemplateLock = {
+  generators: Record<string, TemplatePackEntry>
+}
+
+export type FetchedTemplatePack = {
+  type: TemplatePackSourceType
+  version: string
+  /** the folder holding one subfolder per generator */
+  templatesDir: string
+}
+
+/**
+ * Works out where a `--from` value points: a folder on disk, a git repository (optionally
+ * with a `#branch-or-tag`), or otherwise an npm package.
+ */
+export function templateSourceType(source: string): TemplatePackSourceType {
+  if (/^(git\+|git@|git:|github:|gitlab:|bitbucket:)/.test(source)) return "git"
+  if (/^https?:\/\/.*\.git(#.*)?$/.test(source)) return "git"
+  if (/^(\.|\/|~|[A-Za-z]:\\)/.test(source) || filesystem.exists(source) === "dir") return "path"
+  return "npm"
+}
+
+/** Packs may keep their templates in ignite/templates, templates or at the root */
+function findTemplatesDir(packDir: string) {
+  const candidates = [
+    filesystem.path(packDir, "ignite", "templates"),
+    filesystem.path(packDir, "templates"),
+  ]
+  return candidates.find((dir) => filesystem.exists(dir) === "dir") ?? packDir
+}
+
+function packageVersion(packDir: string): string | undefined {
+  return filesystem.read(filesystem.path(packDir, "package.json"), "json")?.version
+}
+
+/**
+ * Gets a template pack's files. Folders are used where they are; git repositories are cloned
+ * and npm packages downloaded into `destPath`.
+ */
+export async function fetchTemplatePack(
+  source: string,
+  destPath: string,
+): Promise<FetchedTemplatePack> {
+  const type = templateSourceType(source)
+
+  if (type === "path") {
+    const packDir = filesystem.path(source.replace(/^~(?=$|\/|\\)/, filesystem.homedir()))
+    if (filesystem.exists(packDir) !== "dir") {
+      throw new Error(`Couldn't find a template pack folder at ${source}.`)
+    }
+    return {
+      type,
+      version: packageVersion(packDir) ?? "local",
+      templatesDir: findTemplatesDir(packDir),
+    }
+  }
+
+  filesystem.dir(destPath)
+  if (type === "git") {
+    const [url, ref] = source
+      .replace(/^git\+/, "")
+      .replace(/^(github|gitlab|bitbucket):(.*)$/, (_, host, repo) => {
+        return `https://${host}.${host === "bitbucket" ? "org" : "com"}/${repo}.git`
+      })
+      .split("#")
+    const packDir = filesystem.path(destPath, "pack")
+    const branch = ref ? ` --branch "${ref}"` : ""
+    await system.run(`git clone --depth 1${branch} "${url}" "${packDir}"`, { trim: true })
+    const version = await system.run("git rev-parse HEAD", { cwd: packDir, trim: true })
+    return { type, version, templatesDir: findTemplatesDir(packDir) }
+  }
+
+  const tarball = await system.run(`npm pack "${source}" --silent`, { cwd: destPath, trim: true })
+  await system.run(`tar -xzf "${tarball.split("\n").pop()}"`, { cwd: destPath })
+  const packDir = filesystem.path(destPath, "package")
+  return {
+    type,
+    version: packageVersion(packDir) ?? "unknown",
+    templatesDir: findTemplatesDir(packDir),
+  }
+}
+
+/**
+ * Reads the template lockfile.
+ * @returns an empty lock if there isn't one or it can't be parsed
+ */
+export function readTemplateLock(projectPath: string = process.cwd()): TemplateLock {
+  try {
+    const lock = filesystem.read(filesystem.path(projectPath, TEMPLATE_LOCK_PATH), "json")
+    return { generators: lock?.generators ?? {} }
+  } catch {
+    return { generators: {} }
+  }
+}
+
+/**
+ * Records where generators were installed from, replacing their earlier entries.
+ * @param checksums each installed generator's template folder checksum
+ */
+export function recordTemplatePack(
+  pack: Pick<TemplatePackEntry, "source" | "type" | "version">,
+  checksums: Record<string, string>,
+  projectPath: string = process.cwd(),
+) {
+  const lock = readTemplateLock(projectPath)
+  const installedAt = new Date().toISOString()
+  Object.keys(checksums).forEach((generator) => {
+    lock.generators[generator] = { ...pack, checksum: checksums[generator], installedAt }
+  })
+  filesystem.write(filesystem.path(projectPath, TEMPLATE_LOCK_PATH), lock)
+}
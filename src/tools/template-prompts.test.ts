@@ -0,0 +1,64 @@
+import { GluegunToolbox } from "gluegun"
+import {
+  answerTemplatePrompts,
+  parsePropFlags,
+  parseTemplatePrompts,
+  resolvePromptValue,
+} from "./template-prompts"
+
+describe("template-prompts", () => {
+  const prompts = parseTemplatePrompts([
+    { name: "title", message: "Screen title?", validate: "^[A-Z]" },
+    { name: "withHeader", type: "confirm", default: true },
+    { name: "layout", type: "select", choices: ["scroll", "fixed"] },
+  ])
+
+  it("should default prompts to inputs and reject invalid ones", () => {
+    expect(prompts.map((prompt) => prompt.type)).toEqual(["input", "confirm", "select"])
+    expect(() => parseTemplatePrompts([{ name: "with-header" }])).toThrow("valid identifiers")
+    expect(() => parseTemplatePrompts([{ name: "a", type: "number" }])).toThrow("unknown type")
+    expect(() => parseTemplatePrompts([{ name: "a", type: "select" }])).toThrow("needs a list")
+  })
+
+  it("should parse repeated --prop flags", () => {
+    expect(parsePropFlags(undefined)).toEqual({})
+    expect(parsePropFlags(["title=Hello=World", "withHeader=false"])).toEqual({
+      title: "Hello=World",
+      withHeader: "false",
+    })
+    expect(() => parsePropFlags("title")).toThrow("Expected --prop key=value")
+  })
+
+  it("should check answers against choices and validations", () => {
+    expect(resolvePromptValue(prompts[1], "false")).toBe(false)
+    expect(resolvePromptValue(prompts[2], "fixed")).toBe("fixed")
+    expect(() => resolvePromptValue(prompts[2], "grid")).toThrow("isn't a choice")
+    expect(() => resolvePromptValue(prompts[0], "lowercase")).toThrow("must match /^[A-Z]/")
+  })
+
+  it("should use --prop values and defaults when it can't ask", async () => {
+    const toolbox = {} as GluegunToolbox
+    const answer = (props: Record<string, string>) =>
+      answerTemplatePrompts(toolbox, prompts, { props, interactive: false })
+
+    expect(await answer({ title: "Profile", extra: "yes" })).toEqual({
+      title: "Profile",
+      withHeader: true,
+      layout: "scroll",
+      extra: "yes",
+    })
+    await expect(answer({})).rejects.toThrow("pass --prop title=<value>")
+  })
+
+  it("should never ask prompts with ask: false", async () => {
+    const toolbox = { prompt: { ask: jest.fn() } } as unknown as GluegunToolbox
+    const [withTest] = parseTemplatePrompts([{ name: "withTest", type: "confirm", ask: false }])
+
+    const answers = await answerTemplatePrompts(toolbox, [withTest], {
+      props: {},
+      interactive: true,
+    })
+    expect(answers).toEqual({ withTest: false })
+    expect(toolbox.prompt.ask).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,140 @@
+import { GluegunToolbox } from "gluegun"
+import { bool } from "./flag"
+import { prefix } from "./pretty"
+
+export type TemplatePromptType = "input" | "confirm" | "select"
+
+/**
+ * A question declared under `prompts:` in a template's front matter. The answer is
+ * passed to the template as `props.<name>`.
+ */
+export type TemplatePrompt = {
+  name: string
+  type: TemplatePromptType
+  message?: string
+  default?: string | boolean
+  /** the allowed answers of a `select` */
+  choices?: string[]
+  /** a regular expression `input` answers must match */
+  validate?: string
+  /** false to never ask, taking the answer from a flag, `--prop` or the default */
+  ask?: boolean
+}
+
+export type TemplatePropValue = string | boolean
+
+const promptTypes: TemplatePromptType[] = ["input", "confirm", "select"]
+
+/**
+ * Checks the `prompts:` front matter of a template.
+ * @throws if a prompt is missing its name, has an unknown type or a `select` has no choices
+ */
+export function parseTemplatePrompts(data: unknown): TemplatePrompt[] {
+  if (data === undefined || data === null) return []
+  if (!Array.isArray(data)) throw new Error("Expected `prompts` to be a list.")
+
+  return data.map((prompt) => {
+    const { name, type = "input", choices } = prompt ?? {}
+    if (typeof name !== "string" || !/^[A-Za-z_$][\w$]*$/.test(name)) {
+      throw new Error(`Prompt names must be valid identifiers, got ${JSON.stringify(name)}.`)
+    }
+    if (!promptTypes.includes(type)) {
+      throw new Error(`Prompt "${name}" has unknown type "${type}"; use ${promptTypes.join(", ")}.`)
+    }
+    if (type === "select" && (!Array.isArray(choices) || choices.length === 0)) {
+      throw new Error(`Prompt "${name}" is a select, so it needs a list of choices.`)
+    }
+    return { ...prompt, name, type, choices: choices?.map(String), ask: bool(prompt.ask ?? true) }
+  })
+}
+
+/**
+ * Parses `--prop key=value` flags; the flag may be given more than once.
+ * @throws if a flag isn't in `key=value` form
+ */
+export function parsePropFlags(flag: unknown): Record<string, string> {
+  if (flag === undefined) return {}
+  const flags = Array.isArray(flag) ? flag : [flag]
+
+  const props: Record<string, string> = {}
+  flags.forEach((value) => {
+    const match = /^([^=]+)=(.*)$/.exec(String(value))
+    if (!match) throw new Error(`Expected --prop key=value, got "--prop ${value}".`)
+    props[match[1].trim()] = match[2]
+  })
+  return props
+}
+
+/**
+ * Checks an answer (typed or passed with `--prop`) against its prompt.
+ * @returns a string, or a boolean for `confirm` prompts
+ * @throws if the answer isn't one of the choices or doesn't match `validate`
+ */
+export function resolvePromptValue(prompt: TemplatePrompt, value: unknown): TemplatePropValue {
+  if (prompt.type === "confirm") return bool(value)
+
+  const answer = String(value ?? "")
+  if (prompt.type === "select" && !prompt.choices.includes(answer)) {
+    throw new Error(`"${answer}" isn't a choice for ${prompt.name}; pick ${prompt.choices.join(", ")}.`) // prettier-ignore
+  }
+  if (prompt.validate && !new RegExp(prompt.validate).test(answer)) {
+    throw new Error(`"${answer}" isn't a valid ${prompt.name}; it must match /${prompt.validate}/.`)
+  }
+  return answer
+}
+
+function defaultValue(prompt: TemplatePrompt): TemplatePropValue | undefined {
+  if (prompt.default !== undefined) return prompt.default
+  if (prompt.type === "confirm") return false
+  if (prompt.type === "select") return prompt.choices[0]
+  return undefined
+}
+
+/**
+ * Answers a template's prompts: `--prop` values first, then asks for the rest, or uses their
+ * defaults when `interactive` (or the prompt's `ask`) is off. Props without a prompt are passed
+ * through as they are.
+ * @throws if an answer is invalid, or an input with no default isn't answered
+ */
+export async function answerTemplatePrompts(
+  toolbox: GluegunToolbox,
+  prompts: TemplatePrompt[],
+  options: { props: Record<string, TemplatePropValue>; interactive: boolean },
+): Promise<Record<string, TemplatePropValue>> {
+  const answers: Record<string, TemplatePropValue> = { ...options.props }
+
+  for (const prompt of prompts) {
+    if (prompt.name in options.props) {
+      answers[prompt.name] = resolvePromptValue(prompt, options.props[prompt.name])
+      continue
+    }
+
+    const initial = defaultValue(prompt)
+    if (!options.interactive || !prompt.ask) {
+      if (initial === undefined) {
+        throw new Error(`Missing a value for ${prompt.name}; pass --prop ${prompt.name}=<value>.`)
+      }
+      answers[prompt.name] = resolvePromptValue(prompt, initial)
+      continue
+    }
+
+    const response = await toolbox.prompt.ask(() => ({
+      type: prompt.type,
+      name: prompt.name,
+      message: prompt.message ?? prompt.name,
+      initial,
+      choices: prompt.choices,
+      prefix,
+      validate: (value: unknown) => {
+        try {
+          resolvePromptValue(prompt, value)
+          return true
+        } catch (e) {
+          return e.message
+        }
+      },
+    }))
+    answers[prompt.name] = resolvePromptValue(prompt, response[prompt.name])
+  }
+  return answers
+}
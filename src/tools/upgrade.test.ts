@@ -0,0 +1,74 @@
+import { filesystem } from "gluegun"
+import { useTempDir } from "../../test/_temp-dir"
+import { threeWayMerge } from "./upgrade"
+
+describe("upgrade", () => {
+  describe("threeWayMerge", () => {
+    const tempPath = useTempDir()
+    const dirs = () => ({
+      basePath: tempPath("base"),
+      theirsPath: tempPath("theirs"),
+      projectPath: tempPath("project"),
+    })
+    const lines = (...values: string[]) => values.join("\n") + "\n"
+
+    beforeEach(() => {
+      const { basePath, theirsPath, projectPath } = dirs()
+
+      // untouched in the project, changed upstream
+      filesystem.write(filesystem.path(basePath, "untouched.ts"), lines("a", "b"))
+      filesystem.write(filesystem.path(theirsPath, "untouched.ts"), lines("a", "B"))
+      filesystem.write(filesystem.path(projectPath, "untouched.ts"), lines("a", "b"))
+
+      // both changed, different lines
+      const base = lines("1", "2", "3", "4", "5", "6")
+      filesystem.write(filesystem.path(basePath, "merged.ts"), base)
+      filesystem.write(filesystem.path(theirsPath, "merged.ts"), base.replace("1", "one"))
+      filesystem.write(filesystem.path(projectPath, "merged.ts"), base.replace("6", "six"))
+
+      // both changed, same line
+      filesystem.write(filesystem.path(basePath, "conflict.ts"), lines("x"))
+      filesystem.write(filesystem.path(theirsPath, "conflict.ts"), lines("theirs"))
+      filesystem.write(filesystem.path(projectPath, "conflict.ts"), lines("mine"))
+
+      // new upstream
+      filesystem.write(filesystem.path(theirsPath, "added.ts"), lines("new"))
+
+      // removed upstream
+      filesystem.write(filesystem.path(basePath, "removed.ts"), lines("old"))
+      filesystem.write(filesystem.path(projectPath, "removed.ts"), lines("old"))
+
+      // changed upstream, deleted in the project
+      filesystem.write(filesystem.path(basePath, "deleted.ts"), lines("old"))
+      filesystem.write(filesystem.path(theirsPath, "deleted.ts"), lines("new"))
+    })
+
+    it("should report what would change without writing anything on a dry run", () => {
+      const changes = threeWayMerge({ ...dirs(), dryRun: true })
+
+      expect(changes).toEqual([
+        { path: "added.ts", status: "added" },
+        { path: "conflict.ts", status: "conflict" },
+        { path: "deleted.ts", status: "rejected" },
+        { path: "merged.ts", status: "merged" },
+        { path: "removed.ts", status: "removed" },
+        { path: "untouched.ts", status: "updated" },
+      ])
+      expect(filesystem.read(filesystem.path(dirs().projectPath, "untouched.ts"))).toBe(
+        lines("a", "b"),
+      )
+    })
+
+    it("should merge upstream changes into the project", () => {
+      threeWayMerge(dirs())
+      const read = (file: string) => filesystem.read(filesystem.path(dirs().projectPath, file))
+
+      expect(read("untouched.ts")).toBe(lines("a", "B"))
+      expect(read("merged.ts")).toBe(lines("one", "2", "3", "4", "5", "six"))
+      expect(read("conflict.ts")).toContain("<<<<<<< yours")
+      expect(read("added.ts")).toBe(lines("new"))
+      expect(read("removed.ts")).toBeUndefined()
+      expect(read("deleted.ts.rej")).toContain("+new")
+    })
+  })
+})
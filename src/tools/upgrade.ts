@@ -0,0 +1,251 @@
+import { spawnSync } from "child_process"
+import { filesystem, GluegunToolbox, strings, system } from "gluegun"
+import { demoDependenciesToRemove, findDemoPatches } from "./demo"
+import { findAndRemoveDependencies } from "./dependencies"
+import { diffFiles } from "./filesystem-ext"
+import { mstDependenciesToRemove } from "./mst"
+import type { IgniteProjectConfig } from "./project"
+import { copyBoilerplate, renameReactNativeApp, replaceMaestroBundleIds } from "./react-native"
+
+type MaterializeOptions = {
+  boilerplatePath: string
+  targetPath: string
+  igniteVersion: string
+  projectName: string
+  bundleIdentifier: string
+  removeDemo: boolean
+  stateMgmt: "mst" | "none"
+  /** what the project recorded under `ignite` in app.json, so that block matches too */
+  igniteConfig?: IgniteProjectConfig
+}
+
+export type UpgradeFileStatus =
+  /** the project still matched the old boilerplate, so the new version was written as-is */
+  | "updated"
+  | "added"
+  | "removed"
+  /** both sides changed and merged cleanly */
+  | "merged"
+  /** both sides changed; the file now has conflict markers */
+  | "conflict"
+  /** the change couldn't be applied in place; it was written to `<path>.rej` */
+  | "rejected"
+
+export type UpgradeChange = { path: string; status: UpgradeFileStatus }
+
+// never part of the comparison; these are generated or installed, not boilerplate
+const ignoredPaths = ["node_modules", "ios", "android", ".git"]
+
+const IGNITE = "node " + filesystem.path(__dirname, "..", "..", "bin", "ignite")
+
+/**
+ * Downloads the published `ignite-cli` package for `version` into `destPath`
+ * and returns the path to its boilerplate.
+ */
+export async function fetchBoilerplate(version: string, destPath: string): Promise<string> {
+  filesystem.dir(destPath)
+  const tarball = await system.run(`npm pack ignite-cli@${version} --silent`, {
+    cwd: destPath,
+    trim: true,
+  })
+  await system.run(`tar -xzf "${tarball.split("\n").pop()}"`, { cwd: destPath })
+  return filesystem.path(destPath, "package", "boilerplate")
+}
+
+/**
+ * Recreates what `ignite new` would have generated from `boilerplatePath`, with the project's
+ * name, bundle identifier and demo/MobX-State-Tree choices, so two versions can be compared.
+ * Dependencies aren't installed and Expo Router conversion isn't applied.
+ */
+export async function materializeBoilerplate(toolbox: GluegunToolbox, options: MaterializeOptions) {
+  const { targetPath, projectName, bundleIdentifier, removeDemo, stateMgmt } = options
+  const { read, write, remove } = filesystem
+
+  await copyBoilerplate(toolbox, {
+    boilerplatePath: options.boilerplatePath,
+    targetPath,
+    excluded: [".vscode", "node_modules", "yarn.lock", "bun.lockb", "package-lock.json"],
+    overwrite: true,
+  })
+
+  // published boilerplates only have .gitignore.template (npm drops .gitignore), so copy it
+  // the way `ignite new` does, including the manual workflow's tracked android and ios folders
+  const boilerplateIgnorePath = filesystem.path(options.boilerplatePath, ".gitignore.template")
+  const targetIgnorePath = filesystem.path(targetPath, ".gitignore")
+  if (filesystem.exists(boilerplateIgnorePath) === "file") {
+    filesystem.copy(boilerplateIgnorePath, targetIgnorePath, { overwrite: true })
+  }
+  if (options.igniteConfig?.workflow === "manual" && filesystem.exists(targetIgnorePath)) {
+    const gitIgnoreContents = filesystem.read(targetIgnorePath)
+    filesystem.write(
+      targetIgnorePath,
+      gitIgnoreContents.replace("/android", "").replace("/ios", ""),
+    )
+  }
+
+  const cwd = process.cwd()
+  process.chdir(targetPath)
+  try {
+    // same package.json edits as `ignite new`
+    let packageJsonRaw = read("package.json")
+      .replace(/HelloWorld/g, projectName)
+      .replace(/hello-world/g, strings.kebabCase(projectName))
+      .replace(/start --android/g, "run:android")
+      .replace(/start --ios/g, "run:ios")
+    if (removeDemo) {
+      packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, demoDependenciesToRemove)
+      findDemoPatches().forEach((patch) => filesystem.cwd("./patches").remove(patch))
+    }
+    if (stateMgmt === "none") {
+      packageJsonRaw = findAndRemoveDependencies(packageJsonRaw, mstDependenciesToRemove)
+    }
+    write("package.json", JSON.parse(packageJsonRaw))
+
+    const boilerplateBundleIdentifier = "com.helloworld"
+    await renameReactNativeApp(
+      toolbox,
+      "HelloWorld",
+      projectName,
+      boilerplateBundleIdentifier,
+      bundleIdentifier,
+    )
+    await replaceMaestroBundleIds(toolbox, boilerplateBundleIdentifier, bundleIdentifier)
+
+    const appJson = read("app.json", "json")
+    appJson.ignite = { ...appJson.ignite, ...options.igniteConfig, version: options.igniteVersion }
+    write("app.json", appJson)
+
+    remove(".gitignore.template")
+    remove("src")
+
+    const demoMarkupOnly = removeDemo ? "" : " --markup-only"
+    const mstMarkupOnly = stateMgmt === "none" ? "" : " --markup-only"
+    await system.run(`${IGNITE} remove-feature demo "${targetPath}"${demoMarkupOnly}`)
+    await system.run(`${IGNITE} remove-feature mst "${targetPath}"${mstMarkupOnly}`)
+    await system.run(`npx prettier@3.3.3 --write .`, { trim: true, cwd: targetPath })
+  } finally {
+    process.chdir(cwd)
+  }
+}
+
+function listFiles(root: string): string[] {
+  if (filesystem.exists(root) !== "dir") return []
+  return filesystem.cwd(root).find({
+    matching: ["**/*", ...ignoredPaths.map((path) => `!${path}/**`)],
+    files: true,
+    directories: false,
+  })
+}
+
+function readBuffer(path: string): Buffer | undefined {
+  return filesystem.exists(path) === "file" ? filesystem.read(path, "buffer") : undefined
+}
+
+const sameContents = (a?: Buffer, b?: Buffer) => a !== undefined && b !== undefined && a.equals(b)
+
+// git's own heuristic: a NUL byte in the first 8000 bytes means binary
+const isBinary = (contents?: Buffer) =>
+  contents !== undefined && contents.subarray(0, 8000).includes(0)
+
+/**
+ * Runs `git merge-file` and returns the merged contents and the number of conflicts,
+ * or undefined if git couldn't merge the files (e.g. they're binary).
+ */
+function mergeFile(ours: string, base: string, theirs: string) {
+  const result = spawnSync(
+    "git",
+    ["merge-file", "-p", "-L", "yours", "-L", "base", "-L", "ignite", ours, base, theirs],
+    { encoding: "buffer" },
+  )
+  if (result.error || result.status === null || result.status < 0 || result.status > 127) {
+    return undefined
+  }
+  return { contents: result.stdout, conflicts: result.status }
+}
+
+/**
+ * Applies the changes between two materialized boilerplates to a project as a three-way merge.
+ * Files the project never touched are updated outright; files both sides changed are merged,
+ * leaving conflict markers where they overlap; changes to files the project deleted (and
+ * binary files both sides changed) are written next to them as `.rej` files.
+ * With `dryRun`, reports what would happen without writing anything.
+ */
+export function threeWayMerge(options: {
+  basePath: string
+  theirsPath: string
+  projectPath: string
+  dryRun?: boolean
+}): UpgradeChange[] {
+  const { basePath, theirsPath, projectPath, dryRun = false } = options
+  const emptyPath = filesystem.path(basePath, "..", ".ignite-upgrade-empty")
+  filesystem.write(emptyPath, "")
+
+  const distinct = (val: string, index: number, self: string[]) => self.indexOf(val) === index
+  const paths = listFiles(basePath).concat(listFiles(theirsPath)).filter(distinct).sort()
+
+  const changes: UpgradeChange[] = []
+  const record = (path: string, status: UpgradeFileStatus, apply: () => void) => {
+    changes.push({ path, status })
+    if (!dryRun) apply()
+  }
+
+  paths.forEach((path) => {
+    const basePathOf = filesystem.path(basePath, path)
+    const theirsPathOf = filesystem.path(theirsPath, path)
+    const projectPathOf = filesystem.path(projectPath, path)
+
+    const base = readBuffer(basePathOf)
+    const theirs = readBuffer(theirsPathOf)
+    const ours = readBuffer(projectPathOf)
+
+    // nothing changed upstream, or the project already has the new version
+    if (sameContents(base, theirs) || sameContents(ours, theirs)) return
+    if (ours === undefined && theirs === undefined) return
+
+    const reject = () =>
+      record(path, "rejected", () =>
+        filesystem.write(
+          `${projectPathOf}.rej`,
+          diffFiles(path, base ? basePathOf : emptyPath, theirsPathOf, { binary: true }),
+        ),
+      )
+
+    if (theirs === undefined) {
+      // removed upstream; only remove it here if it hasn't been changed
+      if (sameContents(ours, base)) record(path, "removed", () => filesystem.remove(projectPathOf))
+      return
+    }
+
+    if (ours === undefined) {
+      if (base === undefined) {
+        record(path, "added", () => filesystem.write(projectPathOf, theirs))
+      } else {
+        // changed upstream, but deleted from the project
+        reject()
+      }
+      return
+    }
+
+    if (sameContents(ours, base)) {
+      record(path, "updated", () => filesystem.write(projectPathOf, theirs))
+      return
+    }
+
+    if (isBinary(ours) || isBinary(theirs)) {
+      reject()
+      return
+    }
+
+    const merged = mergeFile(projectPathOf, base ? basePathOf : emptyPath, theirsPathOf)
+    if (merged === undefined) {
+      reject()
+      return
+    }
+    record(path, merged.conflicts > 0 ? "conflict" : "merged", () =>
+      filesystem.write(projectPathOf, merged.contents),
+    )
+  })
+
+  filesystem.remove(emptyPath)
+  return changes
+}
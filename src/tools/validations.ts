@@ -1,5 +1,5 @@
 import { GluegunToolbox } from "gluegun"
-import { prefix } from "./pretty"
+import { jsonOutput, prefix } from "./pretty"
 
 // #region Error Guards
 type IsError = (str: string) => boolean
@@ -36,6 +36,12 @@ const validate = (value: string): true | string => {
 }
 // #endregion
 
+// validation errors go in the JSON output instead of stdout when running with --json
+function printError(toolbox: GluegunToolbox, message: string) {
+  if (jsonOutput.isEnabled()) jsonOutput.error(message)
+  else toolbox.print.error(message)
+}
+
 export async function validateProjectName(toolbox: GluegunToolbox): Promise<string> {
   const { parameters, strings, print } = toolbox
   const { isBlank } = strings
@@ -43,8 +49,8 @@ export async function validateProjectName(toolbox: GluegunToolbox): Promise<stri
   // grab the project name
   let projectName: string = (parameters.first || "").toString()
 
-  // verify the project name is a thing
-  if (isBlank(projectName)) {
+  // verify the project name is a thing (there's nobody to ask with --json)
+  if (isBlank(projectName) && !jsonOutput.isEnabled()) {
     const projectNameResponse = await toolbox.prompt.ask(() => ({
       name: "projectName",
       type: "input",
@@ -56,13 +62,13 @@ export async function validateProjectName(toolbox: GluegunToolbox): Promise<stri
   }
 
   // warn if more than one argument is provided for <projectName>
-  if (parameters.second) {
+  if (parameters.second && !jsonOutput.isEnabled()) {
     print.info(`Info: You provided more than one argument for <projectName>. The first one (${projectName}) will be used and the rest are ignored.`) // prettier-ignore
   }
 
   const error = validate(projectName)
   if (typeof error === "string") {
-    print.error(error)
+    printError(toolbox, error)
     process.exit(1)
   }
 
@@ -73,21 +79,21 @@ export function validateBundleIdentifier(
   toolbox: GluegunToolbox,
   bundleID: string | undefined,
 ): string | undefined {
-  const { print } = toolbox
-
   // no bundle ID provided
   if (bundleID === undefined) return undefined
 
   const id = bundleID.split(".")
   const validBundleID = /^([a-zA-Z]([a-zA-Z0-9_])*\.)+[a-zA-Z]([a-zA-Z0-9_])*$/u
   if (id.length < 2) {
-    print.error(
+    printError(
+      toolbox,
       'Invalid Bundle Identifier. Add something like "com.travelapp" or "com.junedomingo.travelapp"',
     )
     process.exit(1)
   }
   if (!validBundleID.test(bundleID)) {
-    print.error(
+    printError(
+      toolbox,
       "Invalid Bundle Identifier. It must have at least two segments (one or more dots). Each segment must start with a letter. All characters must be alphanumeric or an underscore [a-zA-Z0-9_]",
     )
     process.exit(1)
@@ -0,0 +1,23 @@
+import { filesystem } from "gluegun"
+import * as tempy from "tempy"
+
+/**
+ * Gives each test in the enclosing `describe` an empty folder in the OS temp folder, and removes
+ * it after the test. Fixtures can be written to it in a `beforeEach` declared after this call.
+ *
+ * @returns a function that builds paths inside the current test's folder; call it with no
+ * arguments for the folder itself
+ */
+export function useTempDir(): (...parts: string[]) => string {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = tempy.directory({ prefix: "ignite-" })
+  })
+
+  afterEach(() => {
+    filesystem.remove(tempDir)
+  })
+
+  return (...parts: string[]) => filesystem.path(tempDir, ...parts)
+}
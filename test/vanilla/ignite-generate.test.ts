@@ -1,5 +1,6 @@
 import { filesystem } from "gluegun"
 import * as tempy from "tempy"
+import { stripANSI } from "../../src/tools/strip-ansi"
 import {
   copyDefaultScreenGenerator,
   copyExpoRouterScreenGenerator,
@@ -54,6 +55,9 @@ describe("ignite-cli generate", () => {
            Generated new files:
            /user/home/ignite/app/models/Pizza.test.ts
            /user/home/ignite/app/models/Pizza.ts
+           
+           Patched:
+           app/models/index.ts
         "
       `)
       expect(read(`${TEMP_DIR}/app/models/Pizza.ts`)).toMatchInlineSnapshot(`
@@ -93,9 +97,9 @@ describe("ignite-cli generate", () => {
         export * from \\"./helpers/getRootStore\\"
         export * from \\"./helpers/useStores\\"
         export * from \\"./helpers/setupRootStore\\"
+        export * from \\"./Pizza\\"
 
         // @mst remove-file
-        export * from \\"./Pizza\\"
         "
       `)
       expect(read(`${TEMP_DIR}/app/models/RootStore.ts`)).toEqual(
@@ -135,6 +139,10 @@ describe("ignite-cli generate", () => {
            Generated new files:
            /user/home/ignite/app/models/PizzaStore.test.ts
            /user/home/ignite/app/models/PizzaStore.ts
+           
+           Patched:
+           app/models/RootStore.ts
+           app/models/index.ts
         "
       `)
       expect(read(`${TEMP_DIR}/app/models/PizzaStore.ts`)).toMatchInlineSnapshot(`
@@ -174,24 +182,24 @@ describe("ignite-cli generate", () => {
         export * from \\"./helpers/getRootStore\\"
         export * from \\"./helpers/useStores\\"
         export * from \\"./helpers/setupRootStore\\"
+        export * from \\"./PizzaStore\\"
 
         // @mst remove-file
-        export * from \\"./PizzaStore\\"
         "
       `)
       expect(read(`${TEMP_DIR}/app/models/RootStore.ts`)).toMatchInlineSnapshot(`
         "import { Instance, SnapshotOut, types } from \\"mobx-state-tree\\"
-        import { PizzaStoreModel } from \\"./PizzaStore\\"
         import { AuthenticationStoreModel } from \\"./AuthenticationStore\\" // @demo remove-current-line
         import { EpisodeStoreModel } from \\"./EpisodeStore\\" // @demo remove-current-line
+        import { PizzaStoreModel } from \\"./PizzaStore\\"
 
         /**
          * A RootStore model.
          */
         export const RootStoreModel = types.model(\\"RootStore\\").props({
-          pizzaStore: types.optional(PizzaStoreModel, {} as any),
           authenticationStore: types.optional(AuthenticationStoreModel, {}), // @demo remove-current-line
           episodeStore: types.optional(EpisodeStoreModel, {}), // @demo remove-current-line
+          pizzaStore: types.optional(PizzaStoreModel, {} as any),
         })
 
         /**
@@ -244,6 +252,9 @@ describe("ignite-cli generate", () => {
            
            Generated new files:
            /user/home/ignite/app/components/Topping.tsx
+           
+           Patched:
+           app/components/index.ts
         "
       `)
       expect(read(`${TEMP_DIR}/app/components/Topping.tsx`)).toMatchInlineSnapshot(`
@@ -314,6 +325,9 @@ describe("ignite-cli generate", () => {
            
            Generated new files:
            /user/home/ignite/app/components/sub/to/my/Topping.tsx
+           
+           Patched:
+           app/components/index.ts
         "
       `)
       expect(read(`${TEMP_DIR}/app/components/sub/to/my/Topping.tsx`)).toMatchInlineSnapshot(`
@@ -387,6 +401,9 @@ describe("ignite-cli generate with path params", () => {
          
          Generated new files:
          /user/home/ignite/src/components/Topping.tsx
+         
+         Patched:
+         app/components/index.ts
       "
     `)
   })
@@ -399,6 +416,10 @@ describe("ignite-cli generate with path params", () => {
          
          Generated new files:
          /user/home/ignite/src/screens/SicilianScreen.tsx
+         
+         Patched:
+         app/screens/index.ts
+         app/navigators/AppNavigator.tsx
       "
     `)
   })
@@ -412,11 +433,44 @@ describe("ignite-cli generate with path params", () => {
          Generated new files:
          /user/home/ignite/src/models/pizza.test.ts
          /user/home/ignite/src/models/pizza.ts
+         
+         Patched:
+         app/models/index.ts
       "
     `)
   })
 })
 
+describe("ignite-cli generate api", () => {
+  it("should refuse names that are the same in the plural", async () => {
+    const apiBefore = read(`${TEMP_DIR}/app/services/api/api.ts`)
+
+    const orders = await runIgnite(`generate api Orders`, options)
+    const news = await runIgnite(`generate api News`, options)
+
+    expect(orders).toContain(
+      "Orders is the same in the plural, so its list and by-id methods would both be getOrders. Use a name, like Order.",
+    )
+    expect(orders).toContain("npx ignite-cli g api Order")
+    expect(news).toContain("Use a name that has a plural.")
+    expect(filesystem.exists(`${TEMP_DIR}/app/services/api/OrdersApi.test.ts`)).toBe(false)
+    expect(read(`${TEMP_DIR}/app/services/api/api.ts`)).toBe(apiBefore)
+  })
+})
+
+describe("ignite-cli generate --strict", () => {
+  it("should fail when a patch can't be applied", async () => {
+    filesystem.remove(`${TEMP_DIR}/app/components/index.ts`)
+
+    const error = await runIgnite(`generate component Topping --strict`, options).catch((e) => e)
+
+    expect(error.code).toBe(1)
+    expect(stripANSI(error.stdout)).toContain("app/components/index.ts: ")
+    expect(stripANSI(error.stdout)).toContain("--strict: 1 patch didn't apply.")
+    expect(filesystem.exists(`${TEMP_DIR}/app/components/Topping.tsx`)).toBe("file")
+  })
+})
+
 describe("ignite-cli generate screens expo-router style", () => {
   beforeEach(() => {
     // modify the generator template for screens to be a standard pattern for expo-router
@@ -464,6 +518,16 @@ describe("ignite-cli generate screens expo-router style", () => {
     `)
   })
 
+  it("should generate a route under --dir in an Expo Router app", async () => {
+    filesystem.dir(`${TEMP_DIR}/src/app/(app)/(tabs)`)
+
+    const result = await runIgnite(`generate screen log-in --dir="src/app/(app)/(tabs)"`, options)
+
+    expect(replaceHomeDir(result)).toContain("/user/home/ignite/src/app/(app)/(tabs)/log-in.tsx")
+    expect(read(`${TEMP_DIR}/src/app/(app)/(tabs)/log-in.tsx`)).toContain("function LogInScreen()")
+    expect(filesystem.exists(`${TEMP_DIR}/src/app/log-in.tsx`)).toBe(false)
+  })
+
   it("should generate dynamic id files at requested path", async () => {
     const result = await runIgnite(
       `generate screen [id] --case=none --dir="src/app/(app)/(tabs)/podcasts"`,
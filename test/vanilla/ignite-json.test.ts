@@ -0,0 +1,50 @@
+import { filesystem } from "gluegun"
+import * as tempy from "tempy"
+import { runIgnite } from "../_test-helpers"
+
+const originalDir = process.cwd()
+
+describe("ignite --json", () => {
+  let tempDir: string
+  let options: { pre: string; post: string }
+
+  beforeEach(() => {
+    tempDir = tempy.directory({ prefix: "ignite-" })
+    options = { pre: `cd ${tempDir}`, post: `cd ${originalDir}` }
+  })
+
+  afterEach(() => {
+    filesystem.remove(tempDir) // clean up our mess
+  })
+
+  it("should print a dry run of `new` as JSON without asking about an existing folder", async () => {
+    filesystem.dir(filesystem.path(tempDir, "Foo"))
+
+    const output = JSON.parse(await runIgnite(`new Foo --dry-run --json`, options))
+
+    expect(output).toMatchObject({
+      command: "new",
+      success: true,
+      result: { dryRun: true, projectName: "Foo", existingFolder: "keep" },
+      warnings: [],
+      errors: [],
+    })
+    expect(output.result.commands).toContain("git init")
+  })
+
+  it("should fail instead of asking for an answer that wasn't passed", async () => {
+    filesystem.write(filesystem.path(tempDir, "app.json"), {
+      name: "Foo",
+      expo: { android: { package: "com.foo" }, ios: { bundleIdentifier: "com.foo" } },
+    })
+
+    const error = await runIgnite(`rename --json`, options).catch((e) => e)
+
+    expect(error.code).toBe(1)
+    expect(JSON.parse(error.stdout)).toMatchObject({
+      command: "rename",
+      success: false,
+      errors: ["No name provided, nothing to do."],
+    })
+  })
+})